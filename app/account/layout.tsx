@@ -0,0 +1,5 @@
+import { RoleGuard } from "@/components/role-guard"
+
+export default function AccountLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard>{children}</RoleGuard>
+}
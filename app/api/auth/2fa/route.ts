@@ -0,0 +1,7 @@
+import type { NextRequest } from "next/server"
+import { authenticate } from "@/lib/server/backend"
+
+// Second login step: trade the challenge token and a TOTP or backup code for a session
+export async function POST(request: NextRequest) {
+  return authenticate("/login/2fa", await request.text())
+}
@@ -0,0 +1,6 @@
+import type { NextRequest } from "next/server"
+import { authenticate } from "@/lib/server/backend"
+
+export async function POST(request: NextRequest) {
+  return authenticate("/login", await request.text())
+}
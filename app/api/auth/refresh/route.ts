@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { sessionFromToken } from "@/lib/auth"
+import { backendUrl, SESSION_COOKIE, setSessionCookie } from "@/lib/server/backend"
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token) {
+    return NextResponse.json({ message: "Not logged in" }, { status: 401 })
+  }
+
+  let response: Response
+  try {
+    response = await fetch(backendUrl("/refresh"), {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      cache: "no-store",
+    })
+  } catch (error) {
+    return NextResponse.json({ message: "Unable to reach the backend" }, { status: 502 })
+  }
+
+  const data = await response.json().catch(() => ({}))
+  const session = data.token ? sessionFromToken(data.token) : null
+  if (!response.ok || !session) {
+    return NextResponse.json(data, { status: response.ok ? 401 : response.status })
+  }
+
+  const result = NextResponse.json({ session })
+  setSessionCookie(result, data.token)
+  return result
+}
@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isSessionExpired } from "@/lib/auth"
+import { sessionFromRequest } from "@/lib/server/backend"
+
+export async function GET(request: NextRequest) {
+  const session = sessionFromRequest(request)
+
+  if (session && isSessionExpired(session)) {
+    return NextResponse.json({ session: null, expired: true })
+  }
+  return NextResponse.json({ session, expired: false })
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { backendUrl, SESSION_COOKIE, sessionFromRequest } from "@/lib/server/backend"
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+// Forward /api/v1/* to the backend, attaching the bearer token from the session cookie
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params
+  // Until two-factor setup is done, a supplier session can only reach the 2FA endpoints
+  if (sessionFromRequest(request)?.twoFactorSetupRequired && path[0] !== "2fa") {
+    return NextResponse.json({ message: "Set up two-factor authentication first" }, { status: 403 })
+  }
+  const url = `${backendUrl(`/${path.map(encodeURIComponent).join("/")}`)}${request.nextUrl.search}`
+
+  const headers = new Headers({ Accept: request.headers.get("accept") || "application/json" })
+  const contentType = request.headers.get("content-type")
+  if (contentType) {
+    headers.set("Content-Type", contentType)
+  }
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`)
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.method === "GET" || request.method === "HEAD" ? undefined : await request.arrayBuffer(),
+      cache: "no-store",
+    })
+  } catch (error) {
+    return NextResponse.json({ message: "Unable to reach the backend" }, { status: 502 })
+  }
+
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: {
+      "Content-Type": response.headers.get("content-type") || "application/json",
+    },
+  })
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE }
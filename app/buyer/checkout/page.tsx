@@ -0,0 +1,689 @@
+"use client"
+
+import { Fragment, useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { format, startOfTomorrow } from "date-fns"
+import { AlertTriangle, ArrowLeft, CalendarIcon, ClipboardList, MapPin, ShoppingCart, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { priceChange, stockIssue, useCart, type CartItem } from "@/components/cart-provider"
+import { PriceChange } from "@/components/price-change"
+import { QuantityStepper } from "@/components/quantity-stepper"
+import { SaveTemplateDialog } from "@/components/save-template-dialog"
+import { queryKeys, useAddresses, useProductStock } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, ApiError, getErrorMessage } from "@/lib/api"
+import { cn } from "@/lib/utils"
+
+// Cart prices are shown and ordered in yen
+const ORDER_CURRENCY = "JPY"
+
+const NOTES_MAX_LENGTH = 500
+
+const reviewSchema = z.object({
+  // The default address is preselected, so this is only empty when the address book is, and then the order is
+  // placed without one as it was before addresses existed
+  addressId: z.string(),
+  deliveryDate: z
+    .date({ required_error: "Pick a requested delivery date" })
+    .refine((date) => date >= startOfTomorrow(), "Delivery can be requested from tomorrow onwards"),
+  notes: z.string().max(NOTES_MAX_LENGTH, `Notes can be at most ${NOTES_MAX_LENGTH} characters`),
+})
+
+type ReviewValues = z.infer<typeof reviewSchema>
+
+interface SupplierGroup {
+  key: string
+  supplierName: string
+  lines: { item: CartItem; index: number }[]
+  subtotal: number
+}
+
+// Suppliers only accept purchase orders for their own products, so the cart is ordered one supplier at a time
+function groupBySupplier(cart: CartItem[]) {
+  const groups = new Map<string, SupplierGroup>()
+  cart.forEach((item, index) => {
+    const key = item.supplierId ?? ""
+    const group = groups.get(key) ?? {
+      key,
+      supplierName: item.supplierName || "Unknown supplier",
+      lines: [],
+      subtotal: 0,
+    }
+    group.lines.push({ item, index })
+    group.subtotal += item.price * item.quantity
+    groups.set(key, group)
+  })
+  return Array.from(groups.values())
+}
+
+interface OrderFailure {
+  key: string
+  supplierName: string
+  message: string
+}
+
+export default function CheckoutPage() {
+  const [step, setStep] = useState<"cart" | "review">("cart")
+  const [failures, setFailures] = useState<OrderFailure[]>([])
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const {
+    items: cart,
+    totalAmount,
+    updateQuantity,
+    removeItem,
+    removeItems,
+    syncStock,
+    acknowledgePrices,
+  } = useCart()
+  const { data: addresses = [], isLoading: isLoadingAddresses } = useAddresses()
+
+  const form = useForm<ReviewValues>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: { addressId: "", notes: "" },
+  })
+  const addressId = form.watch("addressId")
+  const selectedAddress = addresses.find((address) => address.id === addressId)
+
+  // Re-check stock on the way in, since it may have changed since the items were added
+  const productIds = useMemo(() => Array.from(new Set(cart.map((item) => item.productId))).sort(), [cart])
+  const { data: latestProducts, isFetching: isCheckingStock } = useProductStock(productIds)
+  const stockIssues = cart.filter((item) => stockIssue(item))
+  // The stock check fills in suppliers for older cart lines; any still missing can't be put on an order
+  const unassignedLines = isCheckingStock ? [] : cart.filter((item) => !item.supplierId)
+  const priceChanges = cart.filter((item) => priceChange(item) !== 0)
+  const supplierGroups = useMemo(() => groupBySupplier(cart), [cart])
+
+  useEffect(() => {
+    if (latestProducts) {
+      syncStock(latestProducts)
+    }
+  }, [latestProducts, syncStock])
+
+  // Send the buyer back to the cart when a line can no longer be ordered as it is
+  useEffect(() => {
+    if (stockIssues.length > 0 || unassignedLines.length > 0) {
+      setStep("cart")
+    }
+  }, [stockIssues.length, unassignedLines.length])
+
+  // Preselect the default address once the address book has loaded
+  useEffect(() => {
+    if (!form.getValues("addressId") && addresses.length > 0) {
+      const preferred = addresses.find((address) => address.is_default) ?? addresses[0]
+      form.setValue("addressId", preferred.id)
+    }
+  }, [addresses])
+
+  // Cut every line down to what is in stock, dropping the ones that sold out
+  const handleFitToStock = () => {
+    for (let index = cart.length - 1; index >= 0; index--) {
+      const item = cart[index]
+      if (item.maxQuantity <= 0) {
+        removeItem(index)
+      } else if (item.quantity > item.maxQuantity) {
+        updateQuantity(index, item.maxQuantity)
+      }
+    }
+  }
+
+  // One purchase order per supplier; groups that go through leave the cart even when others fail
+  const handleCreateOrder = async (values: ReviewValues) => {
+    if (supplierGroups.length === 0 || unassignedLines.length > 0) return
+
+    setFailures([])
+    const groups = supplierGroups
+    const results = await Promise.allSettled(
+      groups.map((group) =>
+        api.orders.create({
+          items: group.lines.map(({ item }) => ({
+            product_id: item.productId,
+            product_option_id: item.optionId,
+            quantity: item.quantity,
+            currency: ORDER_CURRENCY,
+          })),
+          notes: values.notes.trim() || undefined,
+          requested_delivery_date: format(values.deliveryDate, "yyyy-MM-dd"),
+          delivery_address_id: values.addressId || undefined,
+        }),
+      ),
+    )
+
+    const createdIds: string[] = []
+    const failed: OrderFailure[] = []
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        createdIds.push(result.value.id)
+      } else {
+        failed.push({
+          key: groups[index].key,
+          supplierName: groups[index].supplierName,
+          message: getErrorMessage(result.reason, "Failed to create order"),
+        })
+      }
+    })
+
+    removeItems(
+      groups
+        .filter((_, index) => results[index].status === "fulfilled")
+        .flatMap((group) => group.lines.map(({ item }) => item)),
+    )
+    // Placed orders take stock, and a 409 means stock ran out while checking out
+    const stockChanged = results.some(
+      (result) => result.status === "rejected" && result.reason instanceof ApiError && result.reason.status === 409,
+    )
+    if (createdIds.length > 0 || stockChanged) {
+      invalidateQueries(queryKeys.products)
+    }
+    if (createdIds.length > 0) {
+      invalidateQueries(queryKeys.orders)
+    }
+
+    if (failed.length === 0) {
+      toast({
+        title: "Success",
+        description: createdIds.length === 1 ? "Order created successfully" : `${createdIds.length} orders created successfully`,
+      })
+      router.push(createdIds.length === 1 ? `/buyer/orders/${createdIds[0]}` : "/buyer/orders")
+      return
+    }
+
+    setFailures(failed)
+    toast({
+      title: "Error",
+      description:
+        createdIds.length > 0
+          ? `Created ${createdIds.length} of ${groups.length} orders. The rest are still in your cart.`
+          : getErrorMessage(results.find((result) => result.status === "rejected")?.reason, "Failed to create order"),
+      variant: "destructive",
+    })
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  const isReviewing = step === "review" && cart.length > 0
+  const isSubmitting = form.formState.isSubmitting
+  const addressPlaceholder = isLoadingAddresses
+    ? "Loading addresses..."
+    : addresses.length === 0
+      ? "No saved addresses"
+      : "Select address"
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              {isReviewing ? (
+                <Button variant="ghost" onClick={() => setStep("cart")} className="mr-4">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Cart
+                </Button>
+              ) : (
+                <Button variant="ghost" onClick={() => router.push("/buyer/marketplace")} className="mr-4">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Marketplace
+                </Button>
+              )}
+              <h1 className="text-2xl font-bold text-gray-900">{isReviewing ? "Review Order" : "Checkout"}</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {stockIssues.length > 0 && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Stock has changed since you added these items</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5 my-2 space-y-1">
+                {stockIssues.map((item) => (
+                  <li key={`${item.productId}-${item.optionId}`}>
+                    {item.productName} - {item.optionName}: {stockIssue(item)}, you have {item.quantity}
+                  </li>
+                ))}
+              </ul>
+              <Button size="sm" variant="outline" onClick={handleFitToStock}>
+                Adjust to available stock
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {unassignedLines.length > 0 && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Some items have no supplier</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5 my-2 space-y-1">
+                {unassignedLines.map((item) => (
+                  <li key={`${item.productId}-${item.optionId}`}>
+                    {item.productName} - {item.optionName}
+                  </li>
+                ))}
+              </ul>
+              Remove them and add them again from the marketplace before checking out.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {priceChanges.length > 0 && (
+          <Alert className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Prices have changed since you added these items</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5 my-2 space-y-1">
+                {priceChanges.map((item) => (
+                  <li key={`${item.productId}-${item.optionId}`}>
+                    {item.productName} - {item.optionName}: now ¥{item.price.toLocaleString()}, was ¥
+                    {item.previousPrice!.toLocaleString()}
+                  </li>
+                ))}
+              </ul>
+              <p className="mb-2">Your order is charged at the new prices shown in the cart.</p>
+              <Button size="sm" variant="outline" onClick={acknowledgePrices}>
+                Got it
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {failures.length > 0 && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Some orders could not be created</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5 my-2 space-y-1">
+                {failures.map((failure) => (
+                  <li key={failure.key}>
+                    {failure.supplierName}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+              Their items are still in your cart, so you can try again.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isReviewing ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center space-x-2">
+                  <ShoppingCart className="h-5 w-5" />
+                  <CardTitle>Order Items</CardTitle>
+                  <Badge variant="secondary">
+                    {cart.length} item{cart.length !== 1 ? "s" : ""}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {cart.length === 0 ? (
+                  <div className="text-center py-12">
+                    <ShoppingCart className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                    <p className="text-gray-500 mb-2">Your cart is empty</p>
+                    <p className="text-sm text-gray-400">Add products to your order</p>
+                    <Button className="mt-4" onClick={() => router.push("/buyer/marketplace")}>
+                      Start Shopping
+                    </Button>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Option</TableHead>
+                        <TableHead>Unit Price</TableHead>
+                        <TableHead>Quantity</TableHead>
+                        <TableHead>Subtotal</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {supplierGroups.map((group) => (
+                        <Fragment key={group.key}>
+                          <TableRow className="bg-gray-50 hover:bg-gray-50">
+                            <TableCell colSpan={4} className="font-semibold">
+                              {group.supplierName}
+                            </TableCell>
+                            <TableCell colSpan={2} className="font-semibold">
+                              ¥{group.subtotal.toLocaleString()}
+                            </TableCell>
+                          </TableRow>
+                          {group.lines.map(({ item, index }) => (
+                            <TableRow key={`${item.productId}-${item.optionId}`}>
+                              <TableCell>
+                                <div className="font-medium">{item.productName}</div>
+                                <div className="text-xs text-gray-500 font-mono">{item.productCode}</div>
+                              </TableCell>
+                              <TableCell>{item.optionName}</TableCell>
+                              <TableCell>
+                                ¥{item.price.toLocaleString()}
+                                <PriceChange change={priceChange(item)} />
+                              </TableCell>
+                              <TableCell>
+                                <QuantityStepper
+                                  value={item.quantity}
+                                  max={item.maxQuantity}
+                                  onChange={(value) => updateQuantity(index, value)}
+                                />
+                                {stockIssue(item) && <p className="text-xs text-red-600 mt-1">{stockIssue(item)}</p>}
+                              </TableCell>
+                              <TableCell className="font-semibold">
+                                ¥{(item.price * item.quantity).toLocaleString()}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => removeItem(index)}
+                                  className="text-red-500 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="text-lg">Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {supplierGroups.length > 1 && (
+                  <div className="space-y-1 text-sm text-gray-600">
+                    {supplierGroups.map((group) => (
+                      <div key={group.key} className="flex justify-between items-center">
+                        <span>{group.supplierName}</span>
+                        <span>¥{group.subtotal.toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-between items-center font-semibold">
+                  <span>Total:</span>
+                  <span>¥{totalAmount.toLocaleString()}</span>
+                </div>
+                <Button
+                  className="w-full"
+                  size="lg"
+                  disabled={
+                    cart.length === 0 || isCheckingStock || stockIssues.length > 0 || unassignedLines.length > 0
+                  }
+                  onClick={() => setStep("review")}
+                >
+                  {isCheckingStock ? "Checking stock..." : "Continue to Review"}
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={cart.length === 0}
+                  onClick={() => setIsSavingTemplate(true)}
+                >
+                  <ClipboardList className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleCreateOrder)} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center space-x-2">
+                      <MapPin className="h-5 w-5" />
+                      <CardTitle>Delivery</CardTitle>
+                    </div>
+                    <CardDescription>Where and when the supplier should deliver this order</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="addressId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Delivery address</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            disabled={isLoadingAddresses || addresses.length === 0}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={addressPlaceholder} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {addresses.map((address) => (
+                                <SelectItem key={address.id} value={address.id}>
+                                  {address.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {!isLoadingAddresses && addresses.length === 0 && (
+                            <p className="text-sm text-gray-500">
+                              Your account has no delivery addresses yet. You can still place the order without one.
+                            </p>
+                          )}
+                          {selectedAddress && (
+                            <div className="text-sm text-gray-600 border rounded-lg p-3">
+                              <p className="font-medium text-gray-900">{selectedAddress.recipient}</p>
+                              <p>〒{selectedAddress.postal_code}</p>
+                              <p>{selectedAddress.address}</p>
+                              {selectedAddress.phone && <p>{selectedAddress.phone}</p>}
+                            </div>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="deliveryDate"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-col">
+                          <FormLabel>Requested delivery date</FormLabel>
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <FormControl>
+                                <Button
+                                  variant="outline"
+                                  className={cn(
+                                    "w-full sm:w-64 justify-start text-left font-normal",
+                                    !field.value && "text-muted-foreground",
+                                  )}
+                                >
+                                  <CalendarIcon className="h-4 w-4 mr-2" />
+                                  {field.value ? format(field.value, "PPP") : "Pick a date"}
+                                </Button>
+                              </FormControl>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                              <Calendar
+                                mode="single"
+                                selected={field.value}
+                                onSelect={field.onChange}
+                                disabled={(date) => date < startOfTomorrow()}
+                                initialFocus
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="notes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Notes for the supplier</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Delivery instructions, reference numbers..."
+                              rows={4}
+                              maxLength={NOTES_MAX_LENGTH}
+                              {...field}
+                            />
+                          </FormControl>
+                          <p className="text-xs text-gray-500 text-right">
+                            {field.value.length}/{NOTES_MAX_LENGTH}
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center space-x-2">
+                      <ShoppingCart className="h-5 w-5" />
+                      <CardTitle>Order Items</CardTitle>
+                      <Badge variant="secondary">
+                        {cart.length} item{cart.length !== 1 ? "s" : ""}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Option</TableHead>
+                          <TableHead>Unit Price</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead>Subtotal</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {supplierGroups.map((group) => (
+                          <Fragment key={group.key}>
+                            <TableRow className="bg-gray-50 hover:bg-gray-50">
+                              <TableCell colSpan={4} className="font-semibold">
+                                {group.supplierName}
+                              </TableCell>
+                              <TableCell className="font-semibold">¥{group.subtotal.toLocaleString()}</TableCell>
+                            </TableRow>
+                            {group.lines.map(({ item }) => (
+                              <TableRow key={`${item.productId}-${item.optionId}`}>
+                                <TableCell>
+                                  <div className="font-medium">{item.productName}</div>
+                                  <div className="text-xs text-gray-500 font-mono">{item.productCode}</div>
+                                </TableCell>
+                                <TableCell>{item.optionName}</TableCell>
+                                <TableCell>
+                                  ¥{item.price.toLocaleString()}
+                                  <PriceChange change={priceChange(item)} />
+                                </TableCell>
+                                <TableCell>{item.quantity}</TableCell>
+                                <TableCell className="font-semibold">
+                                  ¥{(item.price * item.quantity).toLocaleString()}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </Fragment>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="text-lg">Summary</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {supplierGroups.length > 1 && (
+                    <div className="space-y-1 text-sm text-gray-600">
+                      {supplierGroups.map((group) => (
+                        <div key={group.key} className="flex justify-between items-center">
+                          <span>{group.supplierName}</span>
+                          <span>¥{group.subtotal.toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center font-semibold">
+                    <span>Total:</span>
+                    <span>¥{totalAmount.toLocaleString()}</span>
+                  </div>
+                  {supplierGroups.length > 1 && (
+                    <p className="text-sm text-gray-500">
+                      This will create {supplierGroups.length} purchase orders, one for each supplier.
+                    </p>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    size="lg"
+                    disabled={isSubmitting || isLoadingAddresses || unassignedLines.length > 0}
+                  >
+                    {isSubmitting
+                      ? "Creating Order..."
+                      : supplierGroups.length > 1
+                        ? `Confirm ${supplierGroups.length} Orders`
+                        : "Confirm Order"}
+                  </Button>
+                  <Button type="button" variant="outline" className="w-full" onClick={() => setStep("cart")}>
+                    Edit Cart
+                  </Button>
+                </CardContent>
+              </Card>
+            </form>
+          </Form>
+        )}
+      </main>
+
+      <SaveTemplateDialog
+        items={cart.map((item) => ({
+          product_id: item.productId,
+          product_option_id: item.optionId,
+          quantity: item.quantity,
+        }))}
+        open={isSavingTemplate}
+        onOpenChange={setIsSavingTemplate}
+      />
+    </div>
+  )
+}
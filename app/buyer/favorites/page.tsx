@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Bell, Heart, ShoppingCart, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { useCart } from "@/components/cart-provider"
+import { FavoriteButton } from "@/components/favorite-button"
+import { useFavorites, useWatches } from "@/hooks/use-api"
+import { useWatchActions } from "@/hooks/use-watch-actions"
+import { getErrorMessage, type Watch, type WatchInput } from "@/lib/api"
+
+export default function FavoritesPage() {
+  const { data: favorites = [], error: favoritesError, isLoading: isLoadingFavorites } = useFavorites()
+  const { data: watches = [], error: watchesError, isLoading: isLoadingWatches } = useWatches()
+  const { saveWatch, removeWatch, pendingId } = useWatchActions()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { items: cart } = useCart()
+
+  useEffect(() => {
+    if (favoritesError || watchesError) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(favoritesError ?? watchesError, "Failed to fetch favorites"),
+        variant: "destructive",
+      })
+    }
+  }, [favoritesError, watchesError])
+
+  const handleAlertChange = (watch: Watch, key: keyof WatchInput, checked: boolean) =>
+    saveWatch(watch.product_option_id, {
+      price_drop: watch.price_drop,
+      back_in_stock: watch.back_in_stock,
+      [key]: checked,
+    })
+
+  const handleRemoveWatch = async (watch: Watch) => {
+    const name = watch.option ? `${watch.product_name} - ${watch.option.name}` : "this option"
+    if (!confirm(`Stop alerts for ${name}?`)) return
+    await removeWatch(watch.product_option_id)
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoadingFavorites || isLoadingWatches) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading favorites...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/marketplace")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Marketplace
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Favorites</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={() => router.push("/buyer/checkout")}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Cart ({cart.length})
+              </Button>
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Favorite Products</CardTitle>
+              <CardDescription>Use the heart on a product in the marketplace to keep it here.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {favorites.length === 0 ? (
+                <div className="text-center py-12">
+                  <Heart className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                  <p className="text-gray-500">No favorites yet</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Stock</TableHead>
+                      <TableHead>Added</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {favorites.map(({ product, product_id, created_at }) => (
+                      <TableRow key={product_id}>
+                        {product ? (
+                          <>
+                            <TableCell>
+                              <Link href={`/buyer/product/${product.id}`} className="font-medium hover:underline">
+                                {product.name}
+                              </Link>
+                              <div className="text-xs text-gray-500 font-mono">{product.code}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">{product.supplier_name ?? "-"}</TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {product.options.length > 0
+                                ? `from ¥${Math.min(...product.options.map(({ price }) => price)).toLocaleString()}`
+                                : "-"}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {product.options.some((option) => option.quantity > 0) ? (
+                                product.options.reduce((total, option) => total + option.quantity, 0)
+                              ) : (
+                                <Badge variant="destructive">Out of stock</Badge>
+                              )}
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-gray-500">
+                            This product is no longer sold
+                          </TableCell>
+                        )}
+                        <TableCell className="text-sm">{new Date(created_at).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <FavoriteButton product={{ id: product_id, name: product?.name ?? "this product" }} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Price and Stock Alerts</CardTitle>
+              <CardDescription>
+                Use the bell next to an option on a product page to be notified while you are signed in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {watches.length === 0 ? (
+                <div className="text-center py-12">
+                  <Bell className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                  <p className="text-gray-500">No alerts set up</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Stock</TableHead>
+                      <TableHead>Price Drop</TableHead>
+                      <TableHead>Back in Stock</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {watches.map((watch) => (
+                      <TableRow key={watch.product_option_id}>
+                        {watch.option ? (
+                          <>
+                            <TableCell>
+                              <Link href={`/buyer/product/${watch.product_id}`} className="font-medium hover:underline">
+                                {watch.product_name}
+                              </Link>
+                              <div className="text-xs text-gray-500">{watch.option.name}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">¥{watch.option.price.toLocaleString()}</TableCell>
+                            <TableCell className="text-sm">
+                              {watch.option.quantity > 0 ? (
+                                watch.option.quantity
+                              ) : (
+                                <Badge variant="destructive">Out of stock</Badge>
+                              )}
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={3} className="text-gray-500">
+                            This option is no longer sold
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <Checkbox
+                            checked={watch.price_drop}
+                            disabled={pendingId === watch.product_option_id}
+                            onCheckedChange={(checked) => handleAlertChange(watch, "price_drop", checked === true)}
+                            aria-label="Alert on price drop"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={watch.back_in_stock}
+                            disabled={pendingId === watch.product_option_id}
+                            onCheckedChange={(checked) => handleAlertChange(watch, "back_in_stock", checked === true)}
+                            aria-label="Alert when back in stock"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRemoveWatch(watch)}
+                            disabled={pendingId === watch.product_option_id}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { CartProvider } from "@/components/cart-provider"
+import { RoleGuard } from "@/components/role-guard"
+
+export default function BuyerLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RoleGuard role="buyer">
+      <CartProvider>{children}</CartProvider>
+    </RoleGuard>
+  )
+}
@@ -1,32 +1,33 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
-import { Plus, Minus, ArrowLeft, ShoppingCart, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Suspense, useCallback, useState, useEffect, useMemo, useRef } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Plus, Minus, ArrowLeft, ShoppingCart, ChevronLeft, ChevronRight, LayoutGrid, List, Heart } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CategorySelect } from "@/components/category-select"
+import { FavoriteButton } from "@/components/favorite-button"
+import { OrderTemplateMenu } from "@/components/order-template-menu"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface ProductOption {
-  id: string
-  code: string
-  name: string
-  price: number
-  quantity: number
-}
-
-interface Product {
-  id: string
-  code: string
-  name: string
-  img: string
-  options: ProductOption[]
-}
+import { useSession } from "@/components/session-provider"
+import { priceChange, stockIssue, useCart } from "@/components/cart-provider"
+import { PriceChange } from "@/components/price-change"
+import { QuantityStepper } from "@/components/quantity-stepper"
+import { ProductFacetsPanel, type FacetFilters } from "@/components/product-facets"
+import { VirtualGrid, VirtualTableBody } from "@/components/virtual-list"
+import { useCategories, useInfiniteProducts, useProducts } from "@/hooks/use-api"
+import { useDebouncedCallback } from "@/hooks/use-debounced-callback"
+import { useUserPreference } from "@/hooks/use-user-preference"
+import { getErrorMessage, type Product, type ProductListParams } from "@/lib/api"
+import { categoryPath } from "@/lib/categories"
 
 interface PaginationInfo {
   currentPage: number
@@ -35,175 +36,177 @@ interface PaginationInfo {
   itemsPerPage: number
 }
 
-interface ProductsResponse {
-  items: Product[]
-  "limit": number
-  "page": number
-  "pages": number
-  "total": number
-}
+const PAGE_SIZE = 12
+
+// Infinite scrolling fetches bigger pages, since only the rows on screen are rendered anyway
+const INFINITE_PAGE_SIZE = 48
+
+const SEARCH_DEBOUNCE_MS = 300
 
-interface CartItem {
-  productId: string
-  productName: string
-  productCode: string
-  optionId: string
-  optionName: string
-  price: number
-  quantity: number
-  maxQuantity: number
+const SORT_OPTIONS: { value: string; label: string; sortBy: string; sortOrder: ProductListParams["sortOrder"] }[] = [
+  { value: "name", label: "Name (A-Z)", sortBy: "name", sortOrder: "asc" },
+  { value: "name-desc", label: "Name (Z-A)", sortBy: "name", sortOrder: "desc" },
+  { value: "newest", label: "Newest", sortBy: "createdAt", sortOrder: "desc" },
+  // Price is the product's cheapest option, stock the total across its options
+  { value: "price", label: "Price: low to high", sortBy: "price", sortOrder: "asc" },
+  { value: "price-desc", label: "Price: high to low", sortBy: "price", sortOrder: "desc" },
+  { value: "stock", label: "Most in stock", sortBy: "stock", sortOrder: "desc" },
+]
+
+const VIEWS = ["grid", "table"] as const
+
+const SCROLL_MODES = ["pages", "infinite"] as const
+
+const DEFAULT_SORT = SORT_OPTIONS[0]
+
+function numberParam(value: string | null) {
+  const number = value ? Number(value) : Number.NaN
+  return Number.isFinite(number) ? number : undefined
 }
 
-export default function MarketplacePage() {
-  const [products, setProducts] = useState<Product[]>([])
-  const [pagination, setPagination] = useState<PaginationInfo>({
-    currentPage: 1,
-    totalPages: 1,
-    totalItems: 0,
-    itemsPerPage: 12,
-  })
-  const [searchTerm, setSearchTerm] = useState("")
-  const [productFilter, setProductFilter] = useState("")
-  const [cart, setCart] = useState<CartItem[]>([])
+function MarketplaceContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  // The query string is the source of truth for the filters, so a view can be bookmarked, shared and navigated back to
+  const searchTerm = searchParams.get("q") ?? ""
+  const categoryFilter = searchParams.get("category") ?? ""
+  const sort = SORT_OPTIONS.find((option) => option.value === searchParams.get("sort")) ?? DEFAULT_SORT
+  const currentPage = Math.max(1, Number.parseInt(searchParams.get("page") ?? "") || 1)
+  const facetFilters: FacetFilters = {
+    minPrice: numberParam(searchParams.get("minPrice")),
+    maxPrice: numberParam(searchParams.get("maxPrice")),
+    inStock: searchParams.get("inStock") === "1",
+    suppliers: searchParams.getAll("supplier"),
+    options: searchParams.getAll("option"),
+  }
+  // What is typed in the search box; it reaches the URL once typing pauses
+  const [searchInput, setSearchInput] = useState(searchTerm)
+  // The last term this page put in the URL, to tell its own updates apart from back/forward
+  const committedSearch = useRef(searchTerm)
   const [selectedOptions, setSelectedOptions] = useState<{ [productId: string]: string }>({})
   const [quantities, setQuantities] = useState<{ [productId: string]: number }>({})
-  const [isLoading, setIsLoading] = useState(true)
-  const router = useRouter()
+  // Cards for browsing, a dense table for ordering many SKUs
+  const [view, setView] = useUserPreference("marketplace-view", "grid", VIEWS)
+  const [scrollMode, setScrollMode] = useUserPreference("marketplace-scroll", "pages", SCROLL_MODES)
+  const isInfinite = scrollMode === "infinite"
   const { toast } = useToast()
+  const { logout } = useSession()
+  const { items: cart, totalAmount, addItem, updateQuantity, removeItem: removeFromCart } = useCart()
+
+  const listParams: ProductListParams = {
+    search: searchTerm.trim(),
+    category: categoryFilter,
+    minPrice: facetFilters.minPrice,
+    maxPrice: facetFilters.maxPrice,
+    inStock: facetFilters.inStock || undefined,
+    suppliers: facetFilters.suppliers,
+    options: facetFilters.options,
+    sortBy: sort.sortBy,
+    sortOrder: sort.sortOrder,
+  }
+  // Only one of the two is fetched, depending on the scroll mode
+  const paged = useProducts(isInfinite ? null : { ...listParams, page: currentPage, limit: PAGE_SIZE })
+  const infinite = useInfiniteProducts(isInfinite ? { ...listParams, limit: INFINITE_PAGE_SIZE } : null)
+  const { error, isLoading } = isInfinite ? infinite : paged
+  // Loading more pages shouldn't fade out what is already on screen
+  const isFetching = isInfinite ? infinite.isFetching && !infinite.isFetchingNextPage : paged.isFetching
+  // Facets and the total come with every page, so the first one will do
+  const data = isInfinite ? infinite.data?.pages[0] : paged.data
+  const { data: categories = [] } = useCategories()
+  // Breadcrumb to the selected category, and what can be drilled into from there
+  const selectedPath = useMemo(() => categoryPath(categories, categoryFilter), [categories, categoryFilter])
+  const subcategories = categories
+    .filter((category) => (category.parent_id ?? "") === categoryFilter)
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const products = isInfinite
+    ? (infinite.data?.pages.flatMap((page) => page.items) ?? [])
+    : (paged.data?.items ?? [])
+  const pagination: PaginationInfo = {
+    currentPage: data?.page ?? currentPage,
+    totalPages: data?.pages ?? 1,
+    totalItems: data?.total ?? 0,
+    itemsPerPage: data?.limit ?? PAGE_SIZE,
+  }
 
-  const [isCreatingOrder, setIsCreatingOrder] = useState(false)
-
-  const handleCreateOrder = async () => {
-    if (cart.length === 0) return
-
-    setIsCreatingOrder(true)
-    try {
-      const orderItems = cart.map(item => ({
-        product_id: item.productId,
-        product_option_id: item.optionId,
-        quantity: item.quantity,
-        currency: "JPY"
-      }))
-
-      const response = await fetch(`${API_BASE_URL}/purchase-order`, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify({
-          items: orderItems
-        }),
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        toast({
-          title: "Success",
-          description: "Order created successfully",
-        })
-        // Navigate to order detail page
-        router.push(`/buyer/orders/${data.id}`)
-      } else {
-        const errorData = await response.json()
-        toast({
-          title: "Error",
-          description: errorData.message || "Failed to create order",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
+  useEffect(() => {
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to fetch products"),
         variant: "destructive",
       })
-    } finally {
-      setIsCreatingOrder(false)
     }
+  }, [error])
+
+  // Each change is a history entry, so back and forward step through earlier results; empty values and page 1 are left out
+  const updateParams = (changes: Record<string, string | number | string[] | undefined>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    Object.entries(changes).forEach(([name, value]) => {
+      if (value === undefined || value === "" || (name === "page" && value === 1)) {
+        params.delete(name)
+      } else if (Array.isArray(value)) {
+        params.delete(name)
+        value.forEach((item) => params.append(name, item))
+      } else {
+        params.set(name, String(value))
+      }
+    })
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false })
   }
 
-  useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
+  const commitSearch = useDebouncedCallback((value: string) => {
+    committedSearch.current = value
+    updateParams({ q: value, page: 1 }) // Reset to first page
+  }, SEARCH_DEBOUNCE_MS)
 
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "buyer") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
+  // Follow the URL when it changes underneath the input, e.g. on back/forward
+  useEffect(() => {
+    if (searchTerm === committedSearch.current) return
+    committedSearch.current = searchTerm
+    commitSearch.cancel()
+    setSearchInput(searchTerm)
+  }, [searchTerm])
+
+  const { hasNextPage, fetchNextPage } = infinite
+  const loadMore = useCallback(() => {
+    if (hasNextPage) {
+      fetchNextPage()
     }
+  }, [hasNextPage, fetchNextPage])
 
-    fetchProducts()
-  }, [router, pagination.currentPage, searchTerm, productFilter])
-
-  const fetchProducts = async () => {
-    setIsLoading(true)
-    try {
-      const queryParams = new URLSearchParams({
-        page: pagination.currentPage.toString(),
-        limit: "12",
-        ...(searchTerm && { search: searchTerm }),
-        ...(productFilter && { category: productFilter }),
-      })
-
-      const response = await fetch(`${API_BASE_URL}/product?${queryParams}`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data: ProductsResponse = await response.json()
-        setProducts(data.items || [])
-        setPagination({
-          currentPage: data.page,
-          totalPages: data.pages,
-          totalItems: data.total,
-          itemsPerPage: data.limit,
-        })
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to fetch products",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to connect to server",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  const handleScrollModeChange = (infiniteScroll: boolean) => {
+    setScrollMode(infiniteScroll ? "infinite" : "pages")
+    // Pages don't apply while scrolling
+    updateParams({ page: 1 })
   }
 
   const handlePageChange = (newPage: number) => {
-    setPagination((prev) => ({ ...prev, currentPage: newPage }))
+    updateParams({ page: newPage })
   }
 
   const handleSearch = (value: string) => {
-    setSearchTerm(value)
-    setPagination((prev) => ({ ...prev, currentPage: 1 })) // Reset to first page
+    setSearchInput(value)
+    commitSearch(value)
   }
 
-  const handleProductFilterChange = (value: string) => {
-    setProductFilter(value === "all" ? "" : value)
-    setPagination((prev) => ({ ...prev, currentPage: 1 })) // Reset to first page
+  const handleCategoryChange = (value: string) => {
+    updateParams({ category: value, page: 1 }) // Reset to first page
+  }
+
+  const handleSortChange = (value: string) => {
+    updateParams({ sort: value === DEFAULT_SORT.value ? "" : value, page: 1 }) // Reset to first page
+  }
+
+  const handleFacetChange = (changes: Partial<FacetFilters>) => {
+    const params: Record<string, string | number | string[] | undefined> = { page: 1 } // Reset to first page
+    if ("minPrice" in changes) params.minPrice = changes.minPrice
+    if ("maxPrice" in changes) params.maxPrice = changes.maxPrice
+    if ("inStock" in changes) params.inStock = changes.inStock ? "1" : ""
+    if (changes.suppliers) params.supplier = changes.suppliers
+    if (changes.options) params.option = changes.options
+    updateParams(params)
   }
 
   const handleOptionSelect = (productId: string, optionId: string) => {
@@ -236,33 +239,22 @@ export default function MarketplacePage() {
       return
     }
 
-    const existingItemIndex = cart.findIndex(
-        (item) => item.productId === productId && item.optionId === selectedOptionId,
-    )
-
-    if (existingItemIndex >= 0) {
-      // Update existing item
-      const newCart = [...cart]
-      newCart[existingItemIndex].quantity += quantity
-      setCart(newCart)
-    } else {
-      // Add new item
-      const newItem: CartItem = {
-        productId,
-        productName: product.name,
-        productCode: product.code,
-        optionId: selectedOptionId,
-        optionName: selectedOption.name,
-        price: selectedOption.price,
-        quantity,
-        maxQuantity: selectedOption.quantity,
-      }
-      setCart([...cart, newItem])
+    const added = addItem(product, selectedOption, quantity)
+    if (added === 0) {
+      toast({
+        title: "Stock limit reached",
+        description: `Your cart already holds all ${selectedOption.quantity} of ${product.name} - ${selectedOption.name}`,
+        variant: "destructive",
+      })
+      return
     }
 
     toast({
       title: "Added to cart",
-      description: `${product.name} - ${selectedOption.name}`,
+      description:
+        added < quantity
+          ? `Only ${added} more of ${product.name} - ${selectedOption.name} could be added, the rest is out of stock`
+          : `${product.name} - ${selectedOption.name}`,
     })
 
     // Reset selection
@@ -270,24 +262,159 @@ export default function MarketplacePage() {
     setQuantities((prev) => ({ ...prev, [productId]: 1 }))
   }
 
-  const removeFromCart = (index: number) => {
-    const newCart = cart.filter((_, i) => i !== index)
-    setCart(newCart)
-  }
-
-  const getTotalAmount = () => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0)
-  }
-
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
   const handleReset = () => {
-    setSearchTerm("")
-    setProductFilter("")
-    setPagination((prev) => ({ ...prev, currentPage: 1 }))
+    commitSearch.cancel()
+    committedSearch.current = ""
+    setSearchInput("")
+    router.push(pathname, { scroll: false })
+  }
+
+  // Shared by the paged grid and the virtualized one
+  const renderProductCard = (product: Product) => (
+      <Card key={product.id} className="overflow-hidden">
+        <div className="aspect-square bg-gray-100 flex items-center justify-center">
+          <img
+              src={product.img || "/placeholder.svg"}
+              alt={product.name}
+              className="w-full h-full object-cover"
+          />
+        </div>
+        <CardContent className="p-4">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="font-medium text-sm">
+              <Link href={`/buyer/product/${product.id}`} className="hover:underline">
+                {product.name}
+              </Link>
+            </h3>
+            <FavoriteButton product={product} className="-mt-1 -mr-2 shrink-0" />
+          </div>
+          <p className="text-xs text-gray-500 mb-2">{product.code}</p>
+
+          {product.options && product.options.length > 0 && (
+              <>
+                <div className="mb-2">
+                  <Select
+                      value={selectedOptions[product.id] || ""}
+                      onValueChange={(value) => handleOptionSelect(product.id, value)}
+                  >
+                    <SelectTrigger className="w-full text-xs">
+                      <SelectValue placeholder="Select option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {product.options.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            <div className="flex flex-col">
+                              <span>{option.name}</span>
+                              <span className="text-xs text-gray-500">
+                        ¥{option.price.toLocaleString()} - Qty: {option.quantity}
+                      </span>
+                            </div>
+                          </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {selectedOptions[product.id] && (
+                    <>
+                      <div className="flex items-center space-x-2 mb-2">
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleQuantityChange(product.id, (quantities[product.id] || 1) - 1)}
+                            disabled={!quantities[product.id] || quantities[product.id] <= 1}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <Input
+                            type="number"
+                            value={quantities[product.id] || 1}
+                            onChange={(e) =>
+                                handleQuantityChange(product.id, Number.parseInt(e.target.value) || 1)
+                            }
+                            className="w-16 text-center text-xs"
+                            min="1"
+                        />
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleQuantityChange(product.id, (quantities[product.id] || 1) + 1)}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Button size="sm" className="w-full" onClick={() => addToCart(product.id)}>
+                        Add
+                      </Button>
+                    </>
+                )}
+              </>
+          )}
+        </CardContent>
+      </Card>
+  )
+
+  const renderProductRow = (product: Product, measureRef?: (element: HTMLTableRowElement | null) => void) => {
+    const selectedOption = product.options.find((option) => option.id === selectedOptions[product.id])
+    return (
+      <TableRow key={product.id} ref={measureRef}>
+        <TableCell>
+          <Link href={`/buyer/product/${product.id}`} className="font-medium hover:underline">
+            {product.name}
+          </Link>
+          <div className="text-xs text-gray-500 font-mono">{product.code}</div>
+        </TableCell>
+        <TableCell className="text-sm">{product.supplier_name ?? "-"}</TableCell>
+        <TableCell className="text-sm whitespace-nowrap">
+          {product.options.length > 0
+            ? `from ¥${Math.min(...product.options.map((option) => option.price)).toLocaleString()}`
+            : "-"}
+        </TableCell>
+        <TableCell className="text-sm">
+          {product.options.reduce((total, option) => total + option.quantity, 0)}
+        </TableCell>
+        <TableCell>
+          <Select
+              value={selectedOptions[product.id] || ""}
+              onValueChange={(value) => handleOptionSelect(product.id, value)}
+              disabled={product.options.length === 0}
+          >
+            <SelectTrigger className="w-44 h-8 text-xs">
+              <SelectValue placeholder="Select option" />
+            </SelectTrigger>
+            <SelectContent>
+              {product.options.map((option) => (
+                  <SelectItem key={option.id} value={option.id} disabled={option.quantity === 0}>
+                    {option.name} - ¥{option.price.toLocaleString()} ({option.quantity})
+                  </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell>
+          {selectedOption && (
+              <QuantityStepper
+                  value={quantities[product.id] || 1}
+                  max={selectedOption.quantity}
+                  onChange={(value) => handleQuantityChange(product.id, value)}
+              />
+          )}
+        </TableCell>
+        <TableCell>
+          <div className="flex items-center space-x-1">
+            <Button size="sm" disabled={!selectedOption} onClick={() => addToCart(product.id)}>
+              Add
+            </Button>
+            <FavoriteButton product={product} />
+          </div>
+        </TableCell>
+      </TableRow>
+    )
   }
 
   if (isLoading) {
@@ -310,6 +437,9 @@ export default function MarketplacePage() {
                 <h1 className="text-2xl font-bold text-gray-900">Create Purchase Order</h1>
               </div>
               <div className="flex items-center space-x-4">
+                <Button onClick={() => router.push("/account/password")} variant="ghost">
+                  Change Password
+                </Button>
                 <Button onClick={handleLogout} variant="outline">
                   Logout
                 </Button>
@@ -330,9 +460,39 @@ export default function MarketplacePage() {
                       <h2 className="text-lg font-semibold">Products</h2>
                       <Badge variant="secondary">{pagination.totalItems} items</Badge>
                     </div>
-                    <Button variant="outline" size="sm" onClick={() => router.push("/buyer/orders")}>
-                      Orders
-                    </Button>
+                    <div className="flex items-center space-x-2">
+                      <div className="flex items-center space-x-2 mr-2">
+                        <Switch id="infinite-scroll" checked={isInfinite} onCheckedChange={handleScrollModeChange} />
+                        <Label htmlFor="infinite-scroll" className="text-sm font-normal">
+                          Infinite scroll
+                        </Label>
+                      </div>
+                      <ToggleGroup
+                          type="single"
+                          size="sm"
+                          variant="outline"
+                          value={view}
+                          onValueChange={(value) => value && setView(value as (typeof VIEWS)[number])}
+                      >
+                        <ToggleGroupItem value="grid" aria-label="Grid view">
+                          <LayoutGrid className="h-4 w-4" />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="table" aria-label="Table view">
+                          <List className="h-4 w-4" />
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                      <Button variant="outline" size="sm" onClick={() => router.push("/buyer/quick-order")}>
+                        Quick Order
+                      </Button>
+                      <OrderTemplateMenu />
+                      <Button variant="outline" size="sm" onClick={() => router.push("/buyer/favorites")}>
+                        <Heart className="h-4 w-4 mr-2" />
+                        Favorites
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => router.push("/buyer/orders")}>
+                        Orders
+                      </Button>
+                    </div>
                   </div>
 
                   {/* Filters */}
@@ -340,175 +500,193 @@ export default function MarketplacePage() {
                     <div className="flex-1">
                       <Input
                           placeholder="Search Supplier or product"
-                          value={searchTerm}
+                          value={searchInput}
                           onChange={(e) => handleSearch(e.target.value)}
                           className="w-full"
                       />
                     </div>
-                    <Select value={productFilter || "all"} onValueChange={handleProductFilterChange}>
-                      <SelectTrigger className="w-40">
-                        <SelectValue placeholder="Product" />
+                    <CategorySelect value={categoryFilter} onChange={handleCategoryChange} emptyLabel="All Categories" />
+                    <Select value={sort.value} onValueChange={handleSortChange}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Sort by" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="all">All Products</SelectItem>
-                        <SelectItem value="phone">Phone</SelectItem>
-                        <SelectItem value="keyboard">Keyboard</SelectItem>
-                        <SelectItem value="speaker">Speaker</SelectItem>
-                        <SelectItem value="watch">Watch</SelectItem>
-                        <SelectItem value="tv">TV</SelectItem>
-                        <SelectItem value="camera">Camera</SelectItem>
+                        {SORT_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <Button variant="outline" onClick={handleReset}>
                       Reset
                     </Button>
                   </div>
-                </div>
-
-                {/* Products Grid */}
-                <div className="p-6">
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                    {products.map((product) => (
-                        <Card key={product.id} className="overflow-hidden">
-                          <div className="aspect-square bg-gray-100 flex items-center justify-center">
-                            <img
-                                src={product.img || "/placeholder.svg"}
-                                alt={product.name}
-                                className="w-full h-full object-cover"
-                            />
-                          </div>
-                          <CardContent className="p-4">
-                            <h3 className="font-medium text-sm mb-1">{product.name}</h3>
-                            <p className="text-xs text-gray-500 mb-2">{product.code}</p>
-
-                            {product.options && product.options.length > 0 && (
-                                <>
-                                  <div className="mb-2">
-                                    <Select
-                                        value={selectedOptions[product.id] || ""}
-                                        onValueChange={(value) => handleOptionSelect(product.id, value)}
-                                    >
-                                      <SelectTrigger className="w-full text-xs">
-                                        <SelectValue placeholder="Select option" />
-                                      </SelectTrigger>
-                                      <SelectContent>
-                                        {product.options.map((option) => (
-                                            <SelectItem key={option.id} value={option.id}>
-                                              <div className="flex flex-col">
-                                                <span>{option.name}</span>
-                                                <span className="text-xs text-gray-500">
-                                          ¥{option.price.toLocaleString()} - Qty: {option.quantity}
-                                        </span>
-                                              </div>
-                                            </SelectItem>
-                                        ))}
-                                      </SelectContent>
-                                    </Select>
-                                  </div>
-
-                                  {selectedOptions[product.id] && (
-                                      <>
-                                        <div className="flex items-center space-x-2 mb-2">
-                                          <Button
-                                              size="sm"
-                                              variant="outline"
-                                              onClick={() => handleQuantityChange(product.id, (quantities[product.id] || 1) - 1)}
-                                              disabled={!quantities[product.id] || quantities[product.id] <= 1}
-                                          >
-                                            <Minus className="h-3 w-3" />
-                                          </Button>
-                                          <Input
-                                              type="number"
-                                              value={quantities[product.id] || 1}
-                                              onChange={(e) =>
-                                                  handleQuantityChange(product.id, Number.parseInt(e.target.value) || 1)
-                                              }
-                                              className="w-16 text-center text-xs"
-                                              min="1"
-                                          />
-                                          <Button
-                                              size="sm"
-                                              variant="outline"
-                                              onClick={() => handleQuantityChange(product.id, (quantities[product.id] || 1) + 1)}
-                                          >
-                                            <Plus className="h-3 w-3" />
-                                          </Button>
-                                        </div>
-                                        <Button size="sm" className="w-full" onClick={() => addToCart(product.id)}>
-                                          Add
-                                        </Button>
-                                      </>
-                                  )}
-                                </>
-                            )}
-                          </CardContent>
-                        </Card>
-                    ))}
-                  </div>
 
-                  {products.length === 0 && (
-                      <div className="text-center py-12 text-gray-500">
-                        <div className="text-lg font-medium">No products found</div>
-                        <div className="text-sm">Try adjusting your search or filters</div>
-                      </div>
-                  )}
-
-                  {/* Pagination */}
-                  {pagination.totalPages > 1 && (
-                      <div className="flex items-center justify-between mt-8 pt-6 border-t">
-                        <div className="text-sm text-gray-500">
-                          Showing {(pagination.currentPage - 1) * pagination.itemsPerPage + 1} to{" "}
-                          {Math.min(pagination.currentPage * pagination.itemsPerPage, pagination.totalItems)} of{" "}
-                          {pagination.totalItems} products
-                        </div>
-
-                        <div className="flex items-center space-x-2">
-                          <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handlePageChange(pagination.currentPage - 1)}
-                              disabled={pagination.currentPage <= 1}
-                          >
-                            <ChevronLeft className="h-4 w-4" />
-                            Previous
+                  {/* Category browser */}
+                  {(selectedPath.length > 0 || subcategories.length > 0) && (
+                      <div className="mt-4 space-y-2">
+                        <div className="flex flex-wrap items-center gap-1 text-sm">
+                          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleCategoryChange("")}>
+                            All Categories
                           </Button>
-
-                          <div className="flex items-center space-x-1">
-                            {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
-                              let pageNum
-                              if (pagination.totalPages <= 5) {
-                                pageNum = i + 1
-                              } else {
-                                const start = Math.max(1, pagination.currentPage - 2)
-                                pageNum = start + i
-                                if (pageNum > pagination.totalPages) return null
-                              }
-
-                              return (
+                          {selectedPath.map((category) => (
+                              <span key={category.id} className="flex items-center gap-1">
+                                <ChevronRight className="h-3 w-3 text-gray-400" />
+                                <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="h-auto p-0"
+                                    onClick={() => handleCategoryChange(category.id)}
+                                    disabled={category.id === categoryFilter}
+                                >
+                                  {category.name}
+                                </Button>
+                              </span>
+                          ))}
+                        </div>
+                        {subcategories.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                              {subcategories.map((category) => (
                                   <Button
-                                      key={pageNum}
-                                      variant={pagination.currentPage === pageNum ? "default" : "outline"}
+                                      key={category.id}
+                                      variant="outline"
                                       size="sm"
-                                      onClick={() => handlePageChange(pageNum)}
+                                      onClick={() => handleCategoryChange(category.id)}
                                   >
-                                    {pageNum}
+                                    {category.name}
                                   </Button>
-                              )
-                            })}
+                              ))}
+                            </div>
+                        )}
+                      </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col md:flex-row">
+                  {/* Facets */}
+                  <aside className="md:w-56 shrink-0 p-6 border-b md:border-b-0 md:border-r">
+                    <ProductFacetsPanel facets={data?.facets} filters={facetFilters} onChange={handleFacetChange} />
+                  </aside>
+
+                  {/* Products Grid */}
+                  <div className={`flex-1 min-w-0 p-6 transition-opacity ${isFetching ? "opacity-60" : ""}`}>
+                    {view === "grid" ? (
+                      isInfinite ? (
+                        <VirtualGrid
+                            items={products}
+                            getKey={(product) => product.id}
+                            renderItem={renderProductCard}
+                            minItemWidth={220}
+                            estimateRowHeight={360}
+                            onEndReached={loadMore}
+                        />
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                          {products.map(renderProductCard)}
+                        </div>
+                      )
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>Supplier</TableHead>
+                            <TableHead>Price</TableHead>
+                            <TableHead>Stock</TableHead>
+                            <TableHead>Option</TableHead>
+                            <TableHead>Quantity</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        {isInfinite ? (
+                          <VirtualTableBody
+                              items={products}
+                              renderRow={renderProductRow}
+                              columns={7}
+                              estimateRowHeight={57}
+                              onEndReached={loadMore}
+                          />
+                        ) : (
+                          <TableBody>{products.map((product) => renderProductRow(product))}</TableBody>
+                        )}
+                      </Table>
+                    )}
+
+                    {products.length === 0 && (
+                        <div className="text-center py-12 text-gray-500">
+                          <div className="text-lg font-medium">No products found</div>
+                          <div className="text-sm">Try adjusting your search or filters</div>
+                        </div>
+                    )}
+
+                    {/* Pagination */}
+                    {isInfinite && products.length > 0 && (
+                        <div className="text-center text-sm text-gray-500 mt-4">
+                          {infinite.isFetchingNextPage
+                            ? "Loading more products..."
+                            : hasNextPage
+                              ? `Showing ${products.length} of ${pagination.totalItems} products`
+                              : `All ${pagination.totalItems} products loaded`}
+                        </div>
+                    )}
+
+                    {!isInfinite && pagination.totalPages > 1 && (
+                        <div className="flex items-center justify-between mt-8 pt-6 border-t">
+                          <div className="text-sm text-gray-500">
+                            Showing {(pagination.currentPage - 1) * pagination.itemsPerPage + 1} to{" "}
+                            {Math.min(pagination.currentPage * pagination.itemsPerPage, pagination.totalItems)} of{" "}
+                            {pagination.totalItems} products
                           </div>
 
-                          <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handlePageChange(pagination.currentPage + 1)}
-                              disabled={pagination.currentPage >= pagination.totalPages}
-                          >
-                            Next
-                            <ChevronRight className="h-4 w-4" />
-                          </Button>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handlePageChange(pagination.currentPage - 1)}
+                                disabled={pagination.currentPage <= 1}
+                            >
+                              <ChevronLeft className="h-4 w-4" />
+                              Previous
+                            </Button>
+
+                            <div className="flex items-center space-x-1">
+                              {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
+                                let pageNum
+                                if (pagination.totalPages <= 5) {
+                                  pageNum = i + 1
+                                } else {
+                                  const start = Math.max(1, pagination.currentPage - 2)
+                                  pageNum = start + i
+                                  if (pageNum > pagination.totalPages) return null
+                                }
+
+                                return (
+                                    <Button
+                                        key={pageNum}
+                                        variant={pagination.currentPage === pageNum ? "default" : "outline"}
+                                        size="sm"
+                                        onClick={() => handlePageChange(pageNum)}
+                                    >
+                                      {pageNum}
+                                    </Button>
+                                )
+                              })}
+                            </div>
+
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handlePageChange(pagination.currentPage + 1)}
+                                disabled={pagination.currentPage >= pagination.totalPages}
+                            >
+                              Next
+                              <ChevronRight className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </div>
-                      </div>
-                  )}
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -537,7 +715,7 @@ export default function MarketplacePage() {
                   ) : (
                       <div className="space-y-4">
                         {cart.map((item, index) => (
-                            <div key={index} className="border rounded-lg p-3">
+                            <div key={`${item.productId}-${item.optionId}`} className="border rounded-lg p-3">
                               <div className="flex justify-between items-start mb-2">
                                 <div className="flex-1">
                                   <h4 className="font-medium text-sm">{item.productName}</h4>
@@ -553,16 +731,24 @@ export default function MarketplacePage() {
                                 </Button>
                               </div>
                               <div className="flex justify-between items-center text-sm">
-                                <span>Qty: {item.quantity}</span>
-                                <span className="font-medium">¥{(item.price * item.quantity).toLocaleString()}</span>
+                                <QuantityStepper
+                                    value={item.quantity}
+                                    max={item.maxQuantity}
+                                    onChange={(value) => updateQuantity(index, value)}
+                                />
+                                <span className="font-medium text-right">
+                                  ¥{(item.price * item.quantity).toLocaleString()}
+                                  <PriceChange change={priceChange(item) * item.quantity} />
+                                </span>
                               </div>
+                              {stockIssue(item) && <p className="text-xs text-red-600 mt-2">{stockIssue(item)}</p>}
                             </div>
                         ))}
 
                         <div className="border-t pt-4">
                           <div className="flex justify-between items-center font-semibold">
                             <span>Total:</span>
-                            <span>¥{getTotalAmount().toLocaleString()}</span>
+                            <span>¥{totalAmount.toLocaleString()}</span>
                           </div>
                         </div>
                       </div>
@@ -572,9 +758,9 @@ export default function MarketplacePage() {
                       className="w-full mt-4"
                       disabled={cart.length === 0}
                       size="lg"
-                      onClick={handleCreateOrder}
+                      onClick={() => router.push("/buyer/checkout")}
                   >
-                    {isCreatingOrder ? "Creating Order..." : "Order"}
+                    Checkout
                   </Button>
                 </CardContent>
               </Card>
@@ -584,3 +770,11 @@ export default function MarketplacePage() {
       </div>
   )
 }
+
+export default function MarketplacePage() {
+  return (
+    <Suspense fallback={null}>
+      <MarketplaceContent />
+    </Suspense>
+  )
+}
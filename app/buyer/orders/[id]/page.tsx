@@ -1,103 +1,47 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
 import { useRouter, useParams } from "next/navigation"
-import { ArrowLeft, Calendar, Package } from 'lucide-react'
+import { parseISO } from "date-fns"
+import { ArrowLeft, Calendar, CalendarClock, ClipboardList, MapPin, Package, RotateCcw } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface PurchaseOrderItem {
-  id: string
-  product_id: string
-  product_option_id: string
-  product_name: string
-  product_option_name: string
-  unit_price: number
-  total_price: number
-  quantity: number
-  currency: string
-}
-
-interface PurchaseOrder {
-  id: string
-  order_number: string
-  status: string
-  order_date: string
-  total_amount: number
-  currency: string
-  notes?: string
-  items: PurchaseOrderItem[]
-}
+import { useSession } from "@/components/session-provider"
+import { ReorderDialog } from "@/components/reorder-dialog"
+import { SaveTemplateDialog } from "@/components/save-template-dialog"
+import { useOrder } from "@/hooks/use-api"
+import { ApiError, getErrorMessage } from "@/lib/api"
 
 export default function BuyerOrderDetailPage() {
-  const [order, setOrder] = useState<PurchaseOrder | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
+  const [isReordering, setIsReordering] = useState(false)
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false)
   const router = useRouter()
   const params = useParams()
   const { toast } = useToast()
+  const { logout } = useSession()
+  const { data: order, error, isLoading } = useOrder(params.id as string | undefined)
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "buyer") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
-    if (params.id) {
-      fetchOrderDetail()
-    }
-  }, [router, params.id])
-
-  const fetchOrderDetail = async () => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${API_BASE_URL}/purchase-order/${params.id}`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setOrder(data)
-      } else {
-        toast({
-          title: "Error",
-          description: "Order not found",
-          variant: "destructive",
-        })
-        router.push("/buyer/orders")
-      }
-    } catch (error) {
+    if (!error) return
+    if (error instanceof ApiError && error.status === 404) {
       toast({
         title: "Error",
-        description: "Failed to fetch order details",
+        description: "Order not found",
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
+      router.push("/buyer/orders")
+      return
     }
-  }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, "Failed to fetch order details"),
+      variant: "destructive",
+    })
+  }, [error])
 
   const getStatusSteps = () => {
     const steps = ["Draft", "Accepted", "Delivering", "Received", "Finished"]
@@ -110,7 +54,7 @@ export default function BuyerOrderDetailPage() {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
@@ -163,10 +107,29 @@ export default function BuyerOrderDetailPage() {
                     <Calendar className="h-4 w-4" />
                     <span>{new Date(order.order_date).toLocaleDateString()}</span>
                   </div>
+                  {order.schedule_id && (
+                    <Link
+                      href={`/buyer/schedules/${order.schedule_id}`}
+                      className="flex items-center space-x-2 mt-1 text-sm text-gray-500 hover:underline"
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                      <span>Placed automatically by a recurring order</span>
+                    </Link>
+                  )}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Button variant="outline" onClick={() => setIsSavingTemplate(true)}>
+                    <ClipboardList className="h-4 w-4 mr-2" />
+                    Save as Template
+                  </Button>
+                  <Button variant="outline" onClick={() => setIsReordering(true)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reorder
+                  </Button>
+                  <Badge variant="default" className="text-lg px-4 py-2">
+                    {order.status}
+                  </Badge>
                 </div>
-                <Badge variant="default" className="text-lg px-4 py-2">
-                  {order.status}
-                </Badge>
               </div>
             </CardHeader>
           </Card>
@@ -240,6 +203,40 @@ export default function BuyerOrderDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Delivery */}
+          {(order.requested_delivery_date || order.delivery_address) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Delivery</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {order.requested_delivery_date && (
+                  <div>
+                    <p className="text-gray-500 mb-1">Requested delivery date</p>
+                    <div className="flex items-center space-x-2">
+                      <Calendar className="h-4 w-4 text-gray-400" />
+                      <span>{parseISO(order.requested_delivery_date).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                )}
+                {order.delivery_address && (
+                  <div>
+                    <p className="text-gray-500 mb-1">Deliver to</p>
+                    <div className="flex items-start space-x-2">
+                      <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
+                      <div className="text-gray-700">
+                        <p className="font-medium text-gray-900">{order.delivery_address.recipient}</p>
+                        <p>〒{order.delivery_address.postal_code}</p>
+                        <p>{order.delivery_address.address}</p>
+                        {order.delivery_address.phone && <p>{order.delivery_address.phone}</p>}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Notes */}
           {order.notes && (
             <Card>
@@ -253,6 +250,18 @@ export default function BuyerOrderDetailPage() {
           )}
         </div>
       </main>
+
+      <ReorderDialog order={order} open={isReordering} onOpenChange={setIsReordering} />
+      <SaveTemplateDialog
+        items={order.items.map(({ product_id, product_option_id, quantity }) => ({
+          product_id,
+          product_option_id,
+          quantity,
+        }))}
+        defaultName={`Reorder of #${order.order_number}`}
+        open={isSavingTemplate}
+        onOpenChange={setIsSavingTemplate}
+      />
     </div>
   )
 }
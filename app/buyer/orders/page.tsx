@@ -1,86 +1,40 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
-import { ArrowLeft, Eye, Calendar, Package } from 'lucide-react'
+import { Suspense, useEffect } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft, Eye, Calendar, Package, CalendarClock, X } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { useOrderSchedules, useOrders } from "@/hooks/use-api"
+import { getErrorMessage } from "@/lib/api"
 
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface PurchaseOrder {
-  id: string
-  order_number: string
-  status: string
-  order_date: string
-  total_amount: number
-  currency: string
-  created_at: string
-}
-
-export default function BuyerOrdersPage() {
-  const [orders, setOrders] = useState<PurchaseOrder[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+function BuyerOrdersContent() {
+  const { data: allOrders = [], error, isLoading } = useOrders()
+  const { data: schedules = [] } = useOrderSchedules()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  // Narrows the list to the orders one recurring schedule placed, when coming from its history
+  const scheduleFilter = searchParams.get("schedule")
+  const orders = scheduleFilter ? allOrders.filter((order) => order.schedule_id === scheduleFilter) : allOrders
+  const scheduleName = (id: string) =>
+    schedules.find((schedule) => schedule.id === id)?.template_name ?? "Recurring order"
   const { toast } = useToast()
+  const { logout } = useSession()
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "buyer") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
-    fetchOrders()
-  }, [router])
-
-  const fetchOrders = async () => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${API_BASE_URL}/purchase-order`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setOrders(data)
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to fetch orders",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to fetch orders"),
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
     }
-  }
+  }, [error])
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -102,7 +56,7 @@ export default function BuyerOrdersPage() {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
@@ -127,6 +81,10 @@ export default function BuyerOrdersPage() {
               <h1 className="text-2xl font-bold text-gray-900">My Orders</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={() => router.push("/buyer/schedules")}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Recurring Orders
+              </Button>
               <Button onClick={handleLogout} variant="outline">
                 Logout
               </Button>
@@ -142,6 +100,14 @@ export default function BuyerOrdersPage() {
               <Package className="h-5 w-5" />
               <CardTitle>Purchase Orders</CardTitle>
               <Badge variant="secondary">{orders.length} orders</Badge>
+              {scheduleFilter && (
+                <Badge variant="outline" className="flex items-center space-x-1">
+                  <span>Placed by {scheduleName(scheduleFilter)}</span>
+                  <button type="button" onClick={() => router.push("/buyer/orders")} aria-label="Show all orders">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -159,6 +125,7 @@ export default function BuyerOrdersPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Order Number</TableHead>
+                    <TableHead>Supplier</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Total Amount</TableHead>
@@ -168,7 +135,19 @@ export default function BuyerOrdersPage() {
                 <TableBody>
                   {orders.map((order) => (
                     <TableRow key={order.id}>
-                      <TableCell className="font-medium">{order.order_number}</TableCell>
+                      <TableCell className="font-medium">
+                        {order.order_number}
+                        {order.schedule_id && (
+                          <Link
+                            href={`/buyer/schedules/${order.schedule_id}`}
+                            className="flex items-center text-xs font-normal text-gray-500 hover:underline mt-1"
+                          >
+                            <CalendarClock className="h-3 w-3 mr-1" />
+                            {scheduleName(order.schedule_id)}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell>{order.supplier_name ?? "-"}</TableCell>
                       <TableCell>
                         <div className="flex items-center space-x-2">
                           <Calendar className="h-4 w-4 text-gray-400" />
@@ -202,3 +181,11 @@ export default function BuyerOrdersPage() {
     </div>
   )
 }
+
+export default function BuyerOrdersPage() {
+  return (
+    <Suspense fallback={null}>
+      <BuyerOrdersContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,280 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useParams } from "next/navigation"
+import { ArrowLeft, Minus, Plus, ShoppingCart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { useCart } from "@/components/cart-provider"
+import { FavoriteButton } from "@/components/favorite-button"
+import { WatchOptionButton } from "@/components/watch-option-button"
+import { useCategories, useProduct } from "@/hooks/use-api"
+import { ApiError, getErrorMessage } from "@/lib/api"
+import { categoryPath } from "@/lib/categories"
+
+export default function BuyerProductDetailPage() {
+  const [selectedOptionId, setSelectedOptionId] = useState("")
+  const [quantity, setQuantity] = useState(1)
+  const router = useRouter()
+  const params = useParams()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { items: cart, addItem } = useCart()
+  const { data: product, error, isLoading } = useProduct(params.id as string | undefined)
+  const { data: categories = [] } = useCategories()
+
+  const selectedOption = product?.options.find((option) => option.id === selectedOptionId)
+  const productCategories = categoryPath(categories, product?.category_id)
+
+  useEffect(() => {
+    if (!error) return
+    if (error instanceof ApiError && error.status === 404) {
+      toast({
+        title: "Error",
+        description: "Product not found",
+        variant: "destructive",
+      })
+      router.push("/buyer/marketplace")
+      return
+    }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, "Failed to fetch product details"),
+      variant: "destructive",
+    })
+  }, [error])
+
+  const handleOptionSelect = (optionId: string) => {
+    setSelectedOptionId(optionId)
+    setQuantity(1)
+  }
+
+  const handleQuantityChange = (value: number) => {
+    if (selectedOption && value >= 1 && value <= selectedOption.quantity) {
+      setQuantity(value)
+    }
+  }
+
+  const handleAddToCart = () => {
+    if (!product || !selectedOption) {
+      toast({
+        title: "Error",
+        description: "Please select a product option",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const added = addItem(product, selectedOption, quantity)
+    if (added === 0) {
+      toast({
+        title: "Stock limit reached",
+        description: `Your cart already holds all ${selectedOption.quantity} of ${product.name} - ${selectedOption.name}`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Added to cart",
+      description:
+        added < quantity
+          ? `Only ${added} more of ${product.name} - ${selectedOption.name} could be added, the rest is out of stock`
+          : `${product.name} - ${selectedOption.name}`,
+    })
+    setSelectedOptionId("")
+    setQuantity(1)
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading product...</div>
+      </div>
+    )
+  }
+
+  if (!product) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Product not found</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/marketplace")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Marketplace
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Product Details</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={() => router.push("/buyer/checkout")}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Cart ({cart.length})
+              </Button>
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="overflow-hidden">
+            <div className="aspect-square bg-gray-100 flex items-center justify-center">
+              <img
+                src={product.img || "/placeholder.svg"}
+                alt={product.name}
+                className="w-full h-full object-cover"
+                onError={(e) => {
+                  e.currentTarget.src = "/placeholder.svg"
+                }}
+              />
+            </div>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <CardTitle className="text-xl">{product.name}</CardTitle>
+                  <FavoriteButton product={product} />
+                </div>
+                <p className="font-mono text-sm text-gray-500">{product.code}</p>
+                {productCategories.length > 0 && (
+                  <p className="text-sm text-gray-500">
+                    {productCategories.map((category) => category.name).join(" › ")}
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent>
+                {product.options.length === 0 ? (
+                  <p className="text-gray-500">This product has no options available to order.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Option</TableHead>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {product.options.map((option) => (
+                        <TableRow key={option.id}>
+                          <TableCell className="font-medium">{option.name}</TableCell>
+                          <TableCell className="font-mono text-sm">{option.code}</TableCell>
+                          <TableCell>¥{option.price.toLocaleString()}</TableCell>
+                          <TableCell>
+                            {option.quantity > 0 ? (
+                              option.quantity
+                            ) : (
+                              <Badge variant="destructive">Out of stock</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <WatchOptionButton option={option} />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {product.options.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Add to Order</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Option</Label>
+                    <Select value={selectedOptionId} onValueChange={handleOptionSelect}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select option" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {product.options.map((option) => (
+                          <SelectItem key={option.id} value={option.id} disabled={option.quantity === 0}>
+                            {option.name} - ¥{option.price.toLocaleString()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {selectedOption && (
+                    <div className="space-y-2">
+                      <Label>Quantity</Label>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleQuantityChange(quantity - 1)}
+                          disabled={quantity <= 1}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <Input
+                          type="number"
+                          value={quantity}
+                          onChange={(e) => handleQuantityChange(Number.parseInt(e.target.value) || 1)}
+                          className="w-20 text-center"
+                          min="1"
+                          max={selectedOption.quantity}
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleQuantityChange(quantity + 1)}
+                          disabled={quantity >= selectedOption.quantity}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                        <span className="text-sm text-gray-500">{selectedOption.quantity} available</span>
+                      </div>
+                      <div className="flex justify-between items-center pt-2 font-semibold">
+                        <span>Subtotal:</span>
+                        <span>¥{(selectedOption.price * quantity).toLocaleString()}</span>
+                      </div>
+                    </div>
+                  )}
+
+                  <Button className="w-full" onClick={handleAddToCart} disabled={!selectedOption}>
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Add to Cart
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, ShoppingCart, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { useCart } from "@/components/cart-provider"
+import { api, getErrorMessage } from "@/lib/api"
+import {
+  parseQuickOrder,
+  resolveQuickOrder,
+  type QuickOrderParseError,
+  type QuickOrderStatus,
+  type ResolvedQuickOrderLine,
+} from "@/lib/quick-order"
+
+const STATUS_LABELS: Record<QuickOrderStatus, string> = {
+  ok: "Ready",
+  partial: "Short on stock",
+  out_of_stock: "Out of stock",
+  unknown: "Unknown code",
+}
+
+const getStatusColor = (status: QuickOrderStatus) => {
+  switch (status) {
+    case "ok":
+      return "default"
+    case "partial":
+      return "secondary"
+    default:
+      return "destructive"
+  }
+}
+
+export default function QuickOrderPage() {
+  const [text, setText] = useState("")
+  const [resolved, setResolved] = useState<ResolvedQuickOrderLine[] | null>(null)
+  const [parseErrors, setParseErrors] = useState<QuickOrderParseError[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { items: cart, addItem } = useCart()
+
+  const orderable = (resolved ?? []).filter((line) => line.status === "ok" || line.status === "partial")
+
+  const handleTextChange = (value: string) => {
+    setText(value)
+    // Results no longer match what is in the box
+    setResolved(null)
+    setParseErrors([])
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    try {
+      handleTextChange(await file.text())
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Could not read the file",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCheck = async () => {
+    const { lines, errors } = parseQuickOrder(text)
+    setParseErrors(errors)
+    if (lines.length === 0) {
+      setResolved([])
+      return
+    }
+
+    setIsChecking(true)
+    try {
+      const products = await api.products.findByOptionCodes(lines.map((line) => line.code))
+      setResolved(resolveQuickOrder(lines, products))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to look up option codes"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleAddToCart = () => {
+    let added = 0
+    let short = 0
+    orderable.forEach((line) => {
+      const count = addItem(line.product!, line.option!, line.available)
+      added += count
+      if (count < line.quantity) short += 1
+    })
+
+    toast({
+      title: added > 0 ? "Added to cart" : "Nothing added",
+      description:
+        short > 0
+          ? `${added} items added; ${short} line${short !== 1 ? "s" : ""} could not be added in full because of stock`
+          : `${added} items from ${orderable.length} line${orderable.length !== 1 ? "s" : ""} added`,
+      variant: added > 0 ? "default" : "destructive",
+    })
+    if (added > 0) {
+      setText("")
+      setResolved(null)
+      setParseErrors([])
+    }
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/marketplace")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Marketplace
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Quick Order</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={() => router.push("/buyer/checkout")}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Cart ({cart.length})
+              </Button>
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Order Lines</CardTitle>
+            <CardDescription>
+              One option code and quantity per line, separated by a comma or tab. Paste straight from a spreadsheet or
+              upload a CSV file.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder={"PHO-001-128GB, 10\nKEY-002-BLACK, 25"}
+              rows={10}
+              className="font-mono text-sm"
+            />
+            <div className="flex flex-wrap gap-2 justify-between">
+              <Button variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload CSV
+                  <input type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={handleFileChange} />
+                </label>
+              </Button>
+              <Button onClick={handleCheck} disabled={!text.trim() || isChecking}>
+                {isChecking ? "Checking..." : "Check Lines"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {parseErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>
+              {parseErrors.length} line{parseErrors.length !== 1 ? "s" : ""} could not be read
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5 mt-2 space-y-1">
+                {parseErrors.map((error) => (
+                  <li key={error.lineNumber}>
+                    Line {error.lineNumber} <span className="font-mono">"{error.text}"</span>: {error.message}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {resolved && resolved.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Checked Lines</CardTitle>
+                  <CardDescription>
+                    {orderable.length} of {resolved.length} can be added to the cart
+                  </CardDescription>
+                </div>
+                <Button onClick={handleAddToCart} disabled={orderable.length === 0}>
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Add {orderable.length} to Cart
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Option Code</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Subtotal</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {resolved.map((line) => (
+                    <TableRow key={line.code}>
+                      <TableCell className="text-gray-500">{line.lineNumbers.join(", ")}</TableCell>
+                      <TableCell className="font-mono text-sm">{line.code}</TableCell>
+                      <TableCell>
+                        {line.product && line.option ? (
+                          <>
+                            <div className="font-medium">{line.product.name}</div>
+                            <div className="text-xs text-gray-500">{line.option.name}</div>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.status === "partial" ? (
+                          <span>
+                            {line.available} <span className="text-xs text-gray-500">of {line.quantity}</span>
+                          </span>
+                        ) : (
+                          line.quantity
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.option && line.available > 0 ? `¥${(line.option.price * line.available).toLocaleString()}` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusColor(line.status)}>{STATUS_LABELS[line.status]}</Badge>
+                        {line.status === "partial" && line.option && (
+                          <p className="text-xs text-gray-500 mt-1">Only {line.option.quantity} in stock</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {resolved && resolved.length === 0 && parseErrors.length === 0 && (
+          <p className="text-center text-gray-500">No order lines found.</p>
+        )}
+      </main>
+    </div>
+  )
+}
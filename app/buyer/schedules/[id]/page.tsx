@@ -0,0 +1,270 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import { useRouter, useParams } from "next/navigation"
+import { ArrowLeft, CalendarClock, Pause, Play, SkipForward, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { OrderScheduleForm } from "@/components/order-schedule-form"
+import { ScheduleRunBadge } from "@/components/schedule-run-badge"
+import { queryKeys, useOrderSchedule } from "@/hooks/use-api"
+import { invalidateQueries, setQueryData } from "@/hooks/use-query"
+import { useOrderScheduleActions } from "@/hooks/use-order-schedule-actions"
+import { api, ApiError, getErrorMessage, type OrderScheduleInput } from "@/lib/api"
+import { describeSchedule, formatRunDate, readCron, upcomingRuns } from "@/lib/order-schedules"
+
+const UPCOMING_RUNS = 5
+
+export default function OrderScheduleDetailPage() {
+  const router = useRouter()
+  const params = useParams()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { data: schedule, error, isLoading } = useOrderSchedule(params.id as string | undefined)
+  const { togglePause, skipNext, remove, pendingId } = useOrderScheduleActions()
+
+  useEffect(() => {
+    if (!error) return
+    if (error instanceof ApiError && error.status === 404) {
+      toast({
+        title: "Error",
+        description: "Schedule not found",
+        variant: "destructive",
+      })
+      router.push("/buyer/schedules")
+      return
+    }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, "Failed to fetch schedule"),
+      variant: "destructive",
+    })
+  }, [error])
+
+  const handleUpdate = async (input: OrderScheduleInput) => {
+    try {
+      const updated = await api.orderSchedules.update(params.id as string, input)
+      setQueryData(queryKeys.orderSchedule(updated.id), updated)
+      invalidateQueries(queryKeys.orderScheduleList())
+      toast({
+        title: "Success",
+        description: "Schedule updated",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update schedule"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (schedule && (await remove(schedule))) {
+      router.push("/buyer/schedules")
+    }
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading schedule...</div>
+      </div>
+    )
+  }
+
+  if (!schedule) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Schedule not found</div>
+      </div>
+    )
+  }
+
+  const isPending = pendingId === schedule.id
+  const upcoming = upcomingRuns(schedule, UPCOMING_RUNS)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/schedules")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Schedules
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Recurring Order</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-xl">
+                    <Link href={`/buyer/templates/${schedule.template_id}`} className="hover:underline">
+                      {schedule.template_name}
+                    </Link>
+                  </CardTitle>
+                  <div className="flex items-center space-x-2 mt-2 text-gray-600">
+                    <CalendarClock className="h-4 w-4" />
+                    <span>{describeSchedule(schedule)}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Button variant="outline" onClick={() => togglePause(schedule)} disabled={isPending}>
+                    {schedule.status === "active" ? (
+                      <Pause className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-2" />
+                    )}
+                    {schedule.status === "active" ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => skipNext(schedule)}
+                    disabled={isPending || !schedule.next_run_at}
+                  >
+                    <SkipForward className="h-4 w-4 mr-2" />
+                    Skip Next
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleDelete}
+                    disabled={isPending}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <Badge variant={schedule.status === "active" ? "default" : "secondary"} className="text-lg px-4 py-2">
+                    {schedule.status}
+                  </Badge>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Upcoming Runs</CardTitle>
+                <CardDescription>Stock is checked at each run, not now</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {schedule.status === "paused" ? (
+                  <p className="text-gray-500">Paused. Resume the schedule to place orders again.</p>
+                ) : upcoming.length === 0 ? (
+                  <p className="text-gray-500">The rule has no more runs.</p>
+                ) : (
+                  <ol className="space-y-2 text-sm">
+                    {upcoming.map((run, index) => (
+                      <li key={run.toISOString()} className="flex justify-between items-center">
+                        <span>{formatRunDate(run, schedule.time_zone)}</span>
+                        {index === 0 && <Badge variant="secondary">Next</Badge>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Edit Schedule</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderScheduleForm
+                  key={schedule.id}
+                  timeZone={schedule.time_zone}
+                  defaultValues={{ templateId: schedule.template_id, ...readCron(schedule.frequency, schedule.cron) }}
+                  submitLabel="Save Changes"
+                  onSubmit={handleUpdate}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle>History</CardTitle>
+                  <CardDescription>Orders placed by this schedule, newest first</CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => router.push(`/buyer/orders?schedule=${schedule.id}`)}>
+                  View in Orders
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {schedule.runs.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Nothing has been ordered by this schedule yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Run</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Orders</TableHead>
+                      <TableHead>Notes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell>{formatRunDate(run.run_at, schedule.time_zone)}</TableCell>
+                        <TableCell>
+                          <ScheduleRunBadge status={run.status} />
+                        </TableCell>
+                        <TableCell>
+                          {run.orders.length === 0 ? (
+                            "-"
+                          ) : (
+                            <ul className="space-y-1">
+                              {run.orders.map((order) => (
+                                <li key={order.id}>
+                                  <Link href={`/buyer/orders/${order.id}`} className="font-medium hover:underline">
+                                    #{order.order_number}
+                                  </Link>
+                                  <span className="text-xs text-gray-500 ml-2">
+                                    {order.supplier_name && `${order.supplier_name} · `}
+                                    {order.currency} {order.total_amount.toLocaleString()}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{run.message ?? "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
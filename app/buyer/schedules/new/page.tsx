@@ -0,0 +1,86 @@
+"use client"
+
+import { Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { OrderScheduleForm } from "@/components/order-schedule-form"
+import { queryKeys } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, getErrorMessage, type OrderScheduleInput } from "@/lib/api"
+import { formatRunDate } from "@/lib/order-schedules"
+
+function NewOrderScheduleContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  // Set when coming from a template's Schedule button
+  const templateId = searchParams.get("template") ?? ""
+
+  const handleCreate = async (input: OrderScheduleInput) => {
+    try {
+      const schedule = await api.orderSchedules.create(input)
+      invalidateQueries(queryKeys.orderSchedules)
+      const firstRun = schedule.next_run_at && formatRunDate(schedule.next_run_at, schedule.time_zone)
+      toast({
+        title: "Schedule created",
+        description: firstRun
+          ? `"${schedule.template_name}" will first be ordered on ${firstRun}`
+          : `"${schedule.template_name}" is scheduled`,
+      })
+      router.push(`/buyer/schedules/${schedule.id}`)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create schedule"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Button variant="ghost" onClick={() => router.push("/buyer/schedules")} className="mr-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Schedules
+            </Button>
+            <h1 className="text-2xl font-bold text-gray-900">New Recurring Order</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+            <CardDescription>
+              The template is placed as draft orders at each run. Lines short on stock are ordered as far as stock
+              allows.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OrderScheduleForm
+              defaultValues={{ templateId }}
+              submitLabel="Create Schedule"
+              onSubmit={handleCreate}
+              onCancel={() => router.push("/buyer/schedules")}
+            />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
+
+export default function NewOrderSchedulePage() {
+  return (
+    <Suspense fallback={null}>
+      <NewOrderScheduleContent />
+    </Suspense>
+  )
+}
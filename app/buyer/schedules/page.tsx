@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, CalendarClock, Eye, Pause, Play, Plus, SkipForward, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { ScheduleRunBadge } from "@/components/schedule-run-badge"
+import { useOrderSchedules } from "@/hooks/use-api"
+import { useOrderScheduleActions } from "@/hooks/use-order-schedule-actions"
+import { getErrorMessage } from "@/lib/api"
+import { describeSchedule, formatRunDate } from "@/lib/order-schedules"
+
+export default function OrderSchedulesPage() {
+  const { data: schedules = [], error, isLoading } = useOrderSchedules()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { togglePause, skipNext, remove, pendingId } = useOrderScheduleActions()
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to fetch schedules"),
+        variant: "destructive",
+      })
+    }
+  }, [error])
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading schedules...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/templates")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Templates
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Recurring Orders</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Schedules</CardTitle>
+                <CardDescription>
+                  Each run places a template as draft orders, one per supplier, with whatever stock is available.
+                </CardDescription>
+              </div>
+              <Button onClick={() => router.push("/buyer/schedules/new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Schedule
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {schedules.length === 0 ? (
+              <div className="text-center py-12">
+                <CalendarClock className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                <p className="text-gray-500 mb-2">No recurring orders yet</p>
+                <p className="text-sm text-gray-400">Schedule a template to have it ordered automatically</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Repeats</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => {
+                    const lastRun = schedule.runs[0]
+                    const isPending = pendingId === schedule.id
+                    return (
+                      <TableRow key={schedule.id}>
+                        <TableCell className="font-medium">{schedule.template_name}</TableCell>
+                        <TableCell>{describeSchedule(schedule)}</TableCell>
+                        <TableCell>
+                          {schedule.next_run_at ? formatRunDate(schedule.next_run_at, schedule.time_zone) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {lastRun ? (
+                            <div className="space-y-1">
+                              <ScheduleRunBadge status={lastRun.status} />
+                              <p className="text-xs text-gray-500">{new Date(lastRun.run_at).toLocaleDateString()}</p>
+                            </div>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={schedule.status === "active" ? "default" : "secondary"}>
+                            {schedule.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => togglePause(schedule)}
+                              disabled={isPending}
+                              title={schedule.status === "active" ? "Pause" : "Resume"}
+                            >
+                              {schedule.status === "active" ? (
+                                <Pause className="h-4 w-4" />
+                              ) : (
+                                <Play className="h-4 w-4" />
+                              )}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => skipNext(schedule)}
+                              disabled={isPending || !schedule.next_run_at}
+                              title="Skip next run"
+                            >
+                              <SkipForward className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => router.push(`/buyer/schedules/${schedule.id}`)}
+                              title="View"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => remove(schedule)}
+                              disabled={isPending}
+                              className="text-red-500 hover:text-red-700"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
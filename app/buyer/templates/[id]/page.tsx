@@ -0,0 +1,270 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import { useRouter, useParams } from "next/navigation"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { ArrowLeft, ShoppingCart, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { QuantityStepper } from "@/components/quantity-stepper"
+import { queryKeys, useOrderTemplate, useProductStock } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { useLoadOrderTemplate } from "@/hooks/use-load-order-template"
+import { api, ApiError, getErrorMessage, orderTemplateItemSchema } from "@/lib/api"
+import { templateNameSchema, toTemplateInput } from "@/lib/order-templates"
+import { buildReorder, type ReorderLine } from "@/lib/reorder"
+
+const templateFormSchema = z.object({
+  name: templateNameSchema,
+  items: z
+    .array(orderTemplateItemSchema.extend({ quantity: z.number().int().min(1, "Quantity must be at least 1") }))
+    .min(1, "A template needs at least one line"),
+})
+
+type TemplateFormValues = z.infer<typeof templateFormSchema>
+
+const getStockBadge = (line: ReorderLine<TemplateFormValues["items"][number]>) => {
+  switch (line.status) {
+    case "ok":
+      return <Badge variant="default">In stock</Badge>
+    case "partial":
+      return <Badge variant="secondary">Only {line.available} in stock</Badge>
+    case "out_of_stock":
+      return <Badge variant="destructive">Out of stock</Badge>
+    default:
+      return <Badge variant="destructive">No longer sold</Badge>
+  }
+}
+
+export default function EditOrderTemplatePage() {
+  const router = useRouter()
+  const params = useParams()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { data: template, error, isLoading } = useOrderTemplate(params.id as string | undefined)
+  const { loadTemplate, loadingId } = useLoadOrderTemplate()
+
+  const form = useForm<TemplateFormValues>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: { name: "", items: [] },
+  })
+  const { fields, remove } = useFieldArray({ control: form.control, name: "items" })
+  const items = form.watch("items")
+
+  const productIds = useMemo(
+    () => Array.from(new Set((template?.items ?? []).map((item) => item.product_id))).sort(),
+    [template],
+  )
+  const { data: products } = useProductStock(productIds)
+  const lines = products ? buildReorder(items, products) : null
+
+  useEffect(() => {
+    if (template) {
+      form.reset({ name: template.name, items: template.items })
+    }
+  }, [template])
+
+  useEffect(() => {
+    if (!error) return
+    if (error instanceof ApiError && error.status === 404) {
+      toast({
+        title: "Error",
+        description: "Template not found",
+        variant: "destructive",
+      })
+      router.push("/buyer/templates")
+      return
+    }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, "Failed to fetch template"),
+      variant: "destructive",
+    })
+  }, [error])
+
+  const handleSave = async (values: TemplateFormValues) => {
+    try {
+      await api.orderTemplates.update(params.id as string, toTemplateInput(values))
+      invalidateQueries(queryKeys.orderTemplates)
+      toast({
+        title: "Success",
+        description: "Template updated",
+      })
+      router.push("/buyer/templates")
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        form.setError("name", { message: getErrorMessage(error, "That name is already taken") })
+        return
+      }
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update template"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading template...</div>
+      </div>
+    )
+  }
+
+  if (!template) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Template not found</div>
+      </div>
+    )
+  }
+
+  const itemsError = form.formState.errors.items?.root?.message ?? form.formState.errors.items?.message
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/templates")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Templates
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Edit Template</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Template</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>Lines</CardTitle>
+                    <CardDescription>
+                      Quantities are what you usually order; stock is checked again when the template is loaded.
+                    </CardDescription>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => loadTemplate(template)}
+                    disabled={loadingId !== null || form.formState.isDirty}
+                    title={form.formState.isDirty ? "Save your changes first" : undefined}
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    {loadingId ? "Loading..." : "Load into Cart"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {fields.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">Every line has been removed.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead>Quantity</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fields.map((field, index) => (
+                        <TableRow key={field.id}>
+                          <TableCell>
+                            <div className="font-medium">{field.product_name}</div>
+                            <div className="text-xs text-gray-500">{field.product_option_name}</div>
+                          </TableCell>
+                          <TableCell>{lines?.[index] ? getStockBadge(lines[index]) : "-"}</TableCell>
+                          <TableCell>
+                            <FormField
+                              control={form.control}
+                              name={`items.${index}.quantity`}
+                              render={({ field: quantityField }) => (
+                                <FormItem>
+                                  <QuantityStepper value={quantityField.value} onChange={quantityField.onChange} />
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => remove(index)}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {itemsError && <p className="text-sm font-medium text-destructive mt-4">{itemsError}</p>}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end space-x-4">
+              <Button type="button" variant="outline" onClick={() => router.push("/buyer/templates")}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, CalendarClock, ClipboardList, Edit, ShoppingCart, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { useCart } from "@/components/cart-provider"
+import { queryKeys, useOrderTemplates } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { useLoadOrderTemplate } from "@/hooks/use-load-order-template"
+import { api, getErrorMessage, type OrderTemplate } from "@/lib/api"
+
+export default function OrderTemplatesPage() {
+  const { data: templates = [], error, isLoading } = useOrderTemplates()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { logout } = useSession()
+  const { items: cart } = useCart()
+  const { loadTemplate, loadingId } = useLoadOrderTemplate()
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to fetch templates"),
+        variant: "destructive",
+      })
+    }
+  }, [error])
+
+  const handleDelete = async (template: OrderTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+
+    try {
+      await api.orderTemplates.remove(template.id)
+      toast({
+        title: "Success",
+        description: "Template deleted",
+      })
+      invalidateQueries(queryKeys.orderTemplates)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete template"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading templates...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => router.push("/buyer/marketplace")} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Marketplace
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Order Templates</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button variant="outline" onClick={() => router.push("/buyer/schedules")}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Recurring Orders
+              </Button>
+              <Button variant="outline" onClick={() => router.push("/buyer/checkout")}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Cart ({cart.length})
+              </Button>
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Templates</CardTitle>
+            <CardDescription>
+              Save the cart or a past order as a template from the checkout or order pages, then load it here or from
+              the marketplace.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {templates.length === 0 ? (
+              <div className="text-center py-12">
+                <ClipboardList className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                <p className="text-gray-500 mb-2">No templates yet</p>
+                <p className="text-sm text-gray-400">Use "Save as Template" on your cart or a past order</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Last Updated</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">{template.name}</TableCell>
+                      <TableCell>{template.items.length}</TableCell>
+                      <TableCell>{template.items.reduce((total, item) => total + item.quantity, 0)}</TableCell>
+                      <TableCell>{new Date(template.updated_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end space-x-2">
+                          <Button size="sm" onClick={() => loadTemplate(template)} disabled={loadingId !== null}>
+                            <ShoppingCart className="h-4 w-4 mr-2" />
+                            {loadingId === template.id ? "Loading..." : "Load into Cart"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => router.push(`/buyer/schedules/new?template=${template.id}`)}
+                            title="Schedule"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => router.push(`/buyer/templates/${template.id}`)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(template)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { api, getErrorMessage } from "@/lib/api"
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+  const { toast } = useToast()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      await api.account.forgotPassword(email)
+      setIsSent(true)
+      toast({
+        title: "Check your email",
+        description: "If an account exists for that address, a reset link is on its way.",
+      })
+    } catch (error) {
+      toast({
+        title: "Request failed",
+        description: getErrorMessage(error, "Unable to request a password reset"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Forgot password</CardTitle>
+          <CardDescription>
+            {isSent
+              ? "We sent a password reset link to your email address."
+              : "Enter the email address of your account and we will send you a reset link"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!isSent && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="name@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+          <Button variant="ghost" className="w-full mt-4" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Login
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
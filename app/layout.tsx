@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google'
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { Toaster } from "@/components/ui/toaster"
+import { SessionProvider } from "@/components/session-provider"
 import { WebSocketProvider } from "@/components/websocket-provider"
 
 const inter = Inter({ subsets: ["latin"] })
@@ -26,10 +27,12 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
       >
-        <WebSocketProvider>
-          {children}
-          <Toaster />
-        </WebSocketProvider>
+        <SessionProvider>
+          <WebSocketProvider>
+            {children}
+            <Toaster />
+          </WebSocketProvider>
+        </SessionProvider>
       </ThemeProvider>
       </body>
       </html>
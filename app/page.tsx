@@ -2,81 +2,100 @@
 
 import type React from "react"
 
-import { useState } from "react"
-import { useRouter } from "next/navigation"
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Eye, EyeOff } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp"
 import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { api, getErrorMessage, type AuthResult } from "@/lib/api"
+import { postLoginPath } from "@/lib/auth"
 
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-export default function LoginPage() {
+function LoginForm() {
   const [username, setUsername] = useState("")
   const [password, setPassword] = useState("")
   const [showPassword, setShowPassword] = useState(false)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [useBackupCode, setUseBackupCode] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { toast } = useToast()
+  const { login } = useSession()
+  const isSessionExpired = searchParams.get("expired") === "1"
 
-  const handleLogin = async (e: React.FormEvent) => {
+  useEffect(() => {
+    if (isSessionExpired) {
+      toast({
+        title: "Session expired",
+        description: "Please log in again to continue.",
+        variant: "destructive",
+      })
+    }
+  }, [isSessionExpired])
+
+  const completeLogin = (data: AuthResult) => {
+    const session = data.session
+    login(session)
+
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${session.username || username}!`,
+    })
+
+    // Back to where the user was, or based on role; suppliers without two-factor authentication enrol first
+    router.push(postLoginPath(session, searchParams.get("returnUrl")))
+  }
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (!challengeToken) return
     setIsLoading(true)
 
     try {
-      const response = await fetch(`${API_BASE_URL}/login`, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ username, password }),
+      completeLogin(await api.auth.verifyTwoFactor(challengeToken, code.trim()))
+    } catch (error) {
+      setCode("")
+      toast({
+        title: "Verification failed",
+        description: getErrorMessage(error, "Invalid verification code"),
+        variant: "destructive",
       })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancelChallenge = () => {
+    setChallengeToken(null)
+    setCode("")
+    setUseBackupCode(false)
+    setPassword("")
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const data = await api.auth.login(username, password)
 
-      const data = await response.json()
-
-      if (response.ok && data.token) {
-        // Store token in localStorage
-        localStorage.setItem("token", data.token)
-
-        // Parse the JWT token to extract user information
-        try {
-          const tokenPayload = JSON.parse(atob(data.token.split(".")[1]))
-          const userRole = tokenPayload.role || "buyer"
-          const userName = tokenPayload.username || tokenPayload.name || username
-
-          toast({
-            title: "Login successful",
-            description: `Welcome back, ${userName}!`,
-          })
-
-          // Redirect based on role
-          if (userRole === "supplier") {
-            router.push("/supplier/products")
-          } else {
-            router.push("/buyer/marketplace")
-          }
-        } catch (tokenError) {
-          // If token parsing fails, default to buyer role
-          toast({
-            title: "Login successful",
-            description: `Welcome back, ${username}!`,
-          })
-          router.push("/buyer/marketplace")
-        }
+      if ("challenge_token" in data) {
+        setChallengeToken(data.challenge_token)
       } else {
-        toast({
-          title: "Login failed",
-          description: data.message || "Invalid credentials",
-          variant: "destructive",
-        })
+        completeLogin(data)
       }
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Unable to connect to server. Please try again.",
+        title: "Login failed",
+        description: getErrorMessage(error, "Invalid credentials"),
         variant: "destructive",
       })
     } finally {
@@ -84,12 +103,88 @@ export default function LoginPage() {
     }
   }
 
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold">Two-factor authentication</CardTitle>
+            <CardDescription>
+              {useBackupCode
+                ? "Enter one of your backup codes"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerifyCode} className="space-y-4">
+              {useBackupCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="backup-code">Backup code</Label>
+                  <Input
+                    id="backup-code"
+                    placeholder="xxxx-xxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode} autoFocus>
+                    <InputOTPGroup>
+                      <InputOTPSlot index={0} />
+                      <InputOTPSlot index={1} />
+                      <InputOTPSlot index={2} />
+                    </InputOTPGroup>
+                    <InputOTPSeparator />
+                    <InputOTPGroup>
+                      <InputOTPSlot index={3} />
+                      <InputOTPSlot index={4} />
+                      <InputOTPSlot index={5} />
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (!useBackupCode && code.length !== 6) || (useBackupCode && !code.trim())}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+            </form>
+            <div className="mt-4 flex justify-between">
+              <Button
+                variant="link"
+                className="px-0"
+                onClick={() => {
+                  setUseBackupCode(!useBackupCode)
+                  setCode("")
+                }}
+              >
+                {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+              </Button>
+              <Button variant="link" className="px-0" onClick={handleCancelChallenge}>
+                Back to Login
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold">Login</CardTitle>
-          <CardDescription>Enter your username below to login to your account</CardDescription>
+          <CardDescription>
+            {isSessionExpired
+              ? "Your session has expired. Log in again to continue."
+              : "Enter your username below to login to your account"}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleLogin} className="space-y-4">
@@ -105,7 +200,12 @@ export default function LoginPage() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link href="/forgot-password" className="text-sm text-gray-600 underline-offset-4 hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <Input
                   id="password"
@@ -130,8 +230,22 @@ export default function LoginPage() {
               {isLoading ? "Logging in..." : "Login"}
             </Button>
           </form>
+          <p className="mt-4 text-center text-sm text-gray-600">
+            Don&apos;t have an account?{" "}
+            <Link href="/register" className="font-medium text-gray-900 underline underline-offset-4">
+              Sign up
+            </Link>
+          </p>
         </CardContent>
       </Card>
     </div>
   )
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,266 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Eye, EyeOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { PasswordRequirements } from "@/components/password-requirements"
+import { api, getErrorMessage } from "@/lib/api"
+import { postLoginPath } from "@/lib/auth"
+import { passwordSchema } from "@/lib/password"
+
+const registerSchema = z
+  .object({
+    role: z.enum(["buyer", "supplier"]),
+    username: z
+      .string()
+      .min(3, "Username must be at least 3 characters")
+      .regex(/^[A-Za-z0-9_.-]+$/, "Only letters, numbers, dots, dashes and underscores"),
+    email: z.string().email("Enter a valid email address"),
+    companyName: z.string().min(1, "Company name is required"),
+    companyAddress: z.string().min(1, "Company address is required"),
+    phone: z
+      .string()
+      .regex(/^[0-9+\-() ]*$/, "Enter a valid phone number")
+      .optional(),
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  })
+
+type RegisterValues = z.infer<typeof registerSchema>
+
+export default function RegisterPage() {
+  const [showPassword, setShowPassword] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+  const { login } = useSession()
+
+  const form = useForm<RegisterValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: {
+      role: "buyer",
+      username: "",
+      email: "",
+      companyName: "",
+      companyAddress: "",
+      phone: "",
+      password: "",
+      confirmPassword: "",
+    },
+  })
+  const password = form.watch("password")
+
+  const handleRegister = async (values: RegisterValues) => {
+    try {
+      const { session } = await api.auth.register({
+        role: values.role,
+        username: values.username,
+        email: values.email,
+        password: values.password,
+        company: {
+          name: values.companyName,
+          address: values.companyAddress,
+          phone: values.phone || undefined,
+        },
+      })
+      login(session)
+
+      toast({
+        title: "Account created",
+        description: `Welcome, ${session.username || values.username}!`,
+      })
+
+      // New suppliers have to set up two-factor authentication before anything else
+      router.push(postLoginPath(session, null))
+    } catch (error) {
+      toast({
+        title: "Sign up failed",
+        description: getErrorMessage(error, "Unable to create account"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Create an account</CardTitle>
+          <CardDescription>Sign up to buy from or sell on the marketplace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleRegister)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>I want to</FormLabel>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="grid grid-cols-2 gap-4">
+                        <label className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer">
+                          <RadioGroupItem value="buyer" />
+                          <span className="text-sm font-medium">Buy products</span>
+                        </label>
+                        <label className="flex items-center space-x-2 border rounded-lg p-3 cursor-pointer">
+                          <RadioGroupItem value="supplier" />
+                          <span className="text-sm font-medium">Sell products</span>
+                        </label>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Username" autoComplete="username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="name@company.com" autoComplete="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="companyName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Tokyo Foods Co., Ltd." autoComplete="organization" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="companyAddress"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Company address</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Street, city, postal code" autoComplete="street-address" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="tel" placeholder="03-1234-5678" autoComplete="tel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <div className="relative">
+                      <FormControl>
+                        <Input
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                    <PasswordRequirements password={password} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Confirm password"
+                        autoComplete="new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Creating account..." : "Sign up"}
+              </Button>
+            </form>
+          </Form>
+          <p className="mt-4 text-center text-sm text-gray-600">
+            Already have an account?{" "}
+            <Link href="/" className="font-medium text-gray-900 underline underline-offset-4">
+              Login
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import { RoleGuard } from "@/components/role-guard"
+
+export default function SupplierLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard role="supplier">{children}</RoleGuard>
+}
@@ -2,47 +2,27 @@
 
 import  { useState, useEffect } from "react"
 import { useRouter, useParams } from "next/navigation"
-import { ArrowLeft, Calendar, Package, Save } from 'lucide-react'
+import { parseISO } from "date-fns"
+import { ArrowLeft, Calendar, MapPin, Package, Save } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface PurchaseOrderItem {
-  id: string
-  product_id: string
-  product_option_id: string
-  product_name: string
-  product_option_name: string
-  unit_price: number
-  total_price: number
-  quantity: number
-  currency: string
-}
-
-interface PurchaseOrder {
-  id: string
-  order_number: string
-  status: string
-  order_date: string
-  total_amount: number
-  currency: string
-  notes?: string
-  items: PurchaseOrderItem[]
-}
+import { useSession } from "@/components/session-provider"
+import { queryKeys, useOrder } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, ApiError, getErrorMessage } from "@/lib/api"
 
 export default function SupplierOrderDetailPage() {
-  const [order, setOrder] = useState<PurchaseOrder | null>(null)
   const [selectedStatus, setSelectedStatus] = useState("")
-  const [isLoading, setIsLoading] = useState(true)
   const [isUpdating, setIsUpdating] = useState(false)
   const router = useRouter()
   const params = useParams()
   const { toast } = useToast()
+  const { logout } = useSession()
+  const { data: order, error, isLoading } = useOrder(params.id as string | undefined)
 
   const statusOptions = [
     { value: "draft", label: "Draft" },
@@ -54,63 +34,28 @@ export default function SupplierOrderDetailPage() {
   ]
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
+    if (order) {
+      setSelectedStatus(order.status.toLowerCase())
     }
+  }, [order?.status])
 
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "supplier") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
-    if (params.id) {
-      fetchOrderDetail()
-    }
-  }, [router, params.id])
-
-  const fetchOrderDetail = async () => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${API_BASE_URL}/purchase-order/${params.id}`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setOrder(data)
-        setSelectedStatus(data.status.toLowerCase())
-      } else {
-        toast({
-          title: "Error",
-          description: "Order not found",
-          variant: "destructive",
-        })
-        router.push("/supplier/orders")
-      }
-    } catch (error) {
+  useEffect(() => {
+    if (!error) return
+    if (error instanceof ApiError && error.status === 404) {
       toast({
         title: "Error",
-        description: "Failed to fetch order details",
+        description: "Order not found",
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
+      router.push("/supplier/orders")
+      return
     }
-  }
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, "Failed to fetch order details"),
+      variant: "destructive",
+    })
+  }, [error])
 
   const updateOrderStatus = async () => {
     if (!order || selectedStatus === order.status.toLowerCase()) {
@@ -119,37 +64,17 @@ export default function SupplierOrderDetailPage() {
 
     setIsUpdating(true)
     try {
-      const response = await fetch(`${API_BASE_URL}/purchase-order/${params.id}/status`, {
-        method: "PATCH",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify({
-          status: selectedStatus,
-        }),
+      await api.orders.updateStatus(params.id as string, selectedStatus)
+      toast({
+        title: "Success",
+        description: "Order status updated successfully",
       })
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Order status updated successfully",
-        })
-        // Refresh order data
-        fetchOrderDetail()
-      } else {
-        const errorData = await response.json()
-        toast({
-          title: "Error",
-          description: errorData.message || "Failed to update order status",
-          variant: "destructive",
-        })
-      }
+      // Refresh this order and the order lists
+      invalidateQueries(queryKeys.orders)
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to update order status"),
         variant: "destructive",
       })
     } finally {
@@ -187,7 +112,7 @@ export default function SupplierOrderDetailPage() {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
@@ -349,6 +274,40 @@ export default function SupplierOrderDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Delivery */}
+          {(order.requested_delivery_date || order.delivery_address) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Delivery</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {order.requested_delivery_date && (
+                  <div>
+                    <p className="text-gray-500 mb-1">Requested delivery date</p>
+                    <div className="flex items-center space-x-2">
+                      <Calendar className="h-4 w-4 text-gray-400" />
+                      <span>{parseISO(order.requested_delivery_date).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                )}
+                {order.delivery_address && (
+                  <div>
+                    <p className="text-gray-500 mb-1">Deliver to</p>
+                    <div className="flex items-start space-x-2">
+                      <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
+                      <div className="text-gray-700">
+                        <p className="font-medium text-gray-900">{order.delivery_address.recipient}</p>
+                        <p>〒{order.delivery_address.postal_code}</p>
+                        <p>{order.delivery_address.address}</p>
+                        {order.delivery_address.phone && <p>{order.delivery_address.phone}</p>}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Notes */}
           {order.notes && (
             <Card>
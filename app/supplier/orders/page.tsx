@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { ArrowLeft, Eye, Calendar, Package } from 'lucide-react'
 import { Button } from "@/components/ui/button"
@@ -8,79 +8,25 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface PurchaseOrder {
-  id: string
-  order_number: string
-  status: string
-  order_date: string
-  total_amount: number
-  currency: string
-  created_at: string
-}
+import { useSession } from "@/components/session-provider"
+import { useOrders } from "@/hooks/use-api"
+import { getErrorMessage } from "@/lib/api"
 
 export default function SupplierOrdersPage() {
-  const [orders, setOrders] = useState<PurchaseOrder[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const { data: orders = [], error, isLoading } = useOrders()
   const router = useRouter()
   const { toast } = useToast()
+  const { logout } = useSession()
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "supplier") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
-    fetchOrders()
-  }, [router])
-
-  const fetchOrders = async () => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${API_BASE_URL}/purchase-order`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        setOrders(data)
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to fetch orders",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to fetch orders"),
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
     }
-  }
+  }, [error])
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -102,7 +48,7 @@ export default function SupplierOrdersPage() {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
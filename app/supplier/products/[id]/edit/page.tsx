@@ -9,30 +9,17 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CategorySelect } from "@/components/category-select"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface ProductOption {
-  id: string
-  code: string
-  name: string
-  price: number
-  quantity: number
-}
-
-interface Product {
-  id: string
-  code: string
-  name: string
-  img: string
-  options: ProductOption[]
-}
+import { queryKeys } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, getErrorMessage, type ProductOption } from "@/lib/api"
 
 export default function EditProductPage() {
   const [code, setCode] = useState("")
   const [name, setName] = useState("")
   const [img, setImg] = useState("")
+  const [categoryId, setCategoryId] = useState("")
   const [options, setOptions] = useState<ProductOption[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingProduct, setIsLoadingProduct] = useState(true)
@@ -41,72 +28,35 @@ export default function EditProductPage() {
   const { toast } = useToast()
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "supplier") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
     // Only fetch if we have a valid product ID
     if (params.id) {
       fetchProduct()
     }
-  }, [router, params.id])
+  }, [params.id])
 
   const fetchProduct = async () => {
     setIsLoadingProduct(true)
     try {
-      const response = await fetch(`${API_BASE_URL}/product/${params.id}`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
+      const product = await api.products.get(params.id as string)
+      // Populate form fields with fetched data
+      setCode(product.code || "")
+      setName(product.name || "")
+      setImg(product.img || "")
+      setCategoryId(product.category_id || "")
 
-      if (response.ok) {
-        const res: { data: Product } = await response.json()
-        const product = res.data
-        // Populate form fields with fetched data
-        setCode(product.code || "")
-        setName(product.name || "")
-        setImg(product.img || "")
+      // Handle options - ensure they have proper IDs for editing
+      const formattedOptions = (product.options || []).map((option, index) => ({
+        ...option,
+        id: option.id || `existing-${index}-${Date.now()}`, // Ensure each option has an ID
+      }))
+      setOptions(formattedOptions)
 
-        // Handle options - ensure they have proper IDs for editing
-        const formattedOptions = (product.options || []).map((option, index) => ({
-          ...option,
-          id: option.id || `existing-${index}-${Date.now()}`, // Ensure each option has an ID
-        }))
-        setOptions(formattedOptions)
-
-        console.log("Product loaded:", product) // Debug log
-      } else {
-        const errorData = await response.json()
-        toast({
-          title: "Error",
-          description: errorData.message || "Product not found",
-          variant: "destructive",
-        })
-        router.push("/supplier/products")
-      }
+      console.log("Product loaded:", product) // Debug log
     } catch (error) {
       console.error("Failed to fetch product:", error)
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Product not found"),
         variant: "destructive",
       })
       router.push("/supplier/products")
@@ -140,10 +90,11 @@ export default function EditProductPage() {
 
     try {
       const requestBody = {
-        id: params.id, // Include the product ID
+        id: params.id as string, // Include the product ID
         code,
         name,
         img,
+        category_id: categoryId || null,
         options: options.map((option) => ({
           ...option,
           // Ensure numeric values are properly typed
@@ -154,40 +105,20 @@ export default function EditProductPage() {
 
       console.log("Updating product with data:", requestBody) // Debug log
 
-      const response = await fetch(`${API_BASE_URL}/product/${params.id}`, {
-        method: "PUT",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify(requestBody),
-      })
-
-      if (response.ok) {
-        const updatedProduct = await response.json()
-        console.log("Product updated successfully:", updatedProduct)
-
-        toast({
-          title: "Success",
-          description: "Product updated successfully",
-        })
-        router.push(`/supplier/products`)
-      } else {
-        const errorData = await response.json()
-        console.error("Update failed:", errorData)
+      const updatedProduct = await api.products.update(params.id as string, requestBody)
+      console.log("Product updated successfully:", updatedProduct)
+      invalidateQueries(queryKeys.products)
 
-        toast({
-          title: "Error",
-          description: errorData.message || "Failed to update product",
-          variant: "destructive",
-        })
-      }
+      toast({
+        title: "Success",
+        description: "Product updated successfully",
+      })
+      router.push(`/supplier/products`)
     } catch (error) {
       console.error("Update error:", error)
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to update product"),
         variant: "destructive",
       })
     } finally {
@@ -269,6 +200,15 @@ export default function EditProductPage() {
                       </div>
                   )}
                 </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <CategorySelect
+                      value={categoryId}
+                      onChange={setCategoryId}
+                      emptyLabel="No category"
+                      className="w-full md:w-1/2"
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -2,55 +2,29 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { ArrowLeft, Plus, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CategorySelect } from "@/components/category-select"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface ProductOption {
-  id: string
-  code: string
-  name: string
-  price: number
-  quantity: number
-}
+import { queryKeys } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, getErrorMessage, type ProductOption } from "@/lib/api"
 
 export default function NewProductPage() {
   const [code, setCode] = useState("")
   const [name, setName] = useState("")
   const [img, setImg] = useState("")
+  const [categoryId, setCategoryId] = useState("")
   const [options, setOptions] = useState<ProductOption[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const router = useRouter()
   const { toast } = useToast()
 
-  useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "supplier") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-  }, [router])
-
   const addOption = () => {
     const newOption: ProductOption = {
       id: Date.now().toString(),
@@ -75,39 +49,23 @@ export default function NewProductPage() {
     setIsLoading(true)
 
     try {
-      const response = await fetch(`${API_BASE_URL}/product`, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-        body: JSON.stringify({
-          code,
-          name,
-          img,
-          options,
-        }),
+      await api.products.create({
+        code,
+        name,
+        img,
+        category_id: categoryId || null,
+        options,
       })
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Product created successfully",
-        })
-        router.push("/supplier/products")
-      } else {
-        const data = await response.json()
-        toast({
-          title: "Error",
-          description: data.message || "Failed to create product",
-          variant: "destructive",
-        })
-      }
+      invalidateQueries(queryKeys.products)
+      toast({
+        title: "Success",
+        description: "Product created successfully",
+      })
+      router.push("/supplier/products")
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to create product"),
         variant: "destructive",
       })
     } finally {
@@ -169,6 +127,15 @@ export default function NewProductPage() {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <CategorySelect
+                  value={categoryId}
+                  onChange={setCategoryId}
+                  emptyLabel="No category"
+                  className="w-full md:w-1/2"
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -10,24 +10,10 @@ import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
-
-const API_BASE_URL = "http://localhost:8080/api/v1"
-
-interface ProductOption {
-  id: string
-  code: string
-  name: string
-  price: number
-  quantity: number
-}
-
-interface Product {
-  id: string
-  code: string
-  name: string
-  img: string
-  options: ProductOption[]
-}
+import { useSession } from "@/components/session-provider"
+import { queryKeys, useProducts } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import { api, getErrorMessage } from "@/lib/api"
 
 interface PaginationInfo {
   currentPage: number
@@ -36,139 +22,67 @@ interface PaginationInfo {
   itemsPerPage: number
 }
 
-interface ProductsResponse {
-  items: Product[]
-  "limit": number
-  "page": number
-  "pages": number
-  "total": number
-}
-
 export default function ProductsPage() {
-  const [products, setProducts] = useState<Product[]>([])
-  const [pagination, setPagination] = useState<PaginationInfo>({
-    currentPage: 1,
-    totalPages: 1,
-    totalItems: 0,
-    itemsPerPage: 10,
-  })
+  const [currentPage, setCurrentPage] = useState(1)
   const [searchTerm, setSearchTerm] = useState("")
   const [sortBy, setSortBy] = useState("name")
-  const [sortOrder, setSortOrder] = useState("asc")
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc")
   const [pageSize, setPageSize] = useState("10")
-  const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
   const { toast } = useToast()
+  const { logout } = useSession()
+
+  const { data, error, isLoading, isFetching } = useProducts({
+    page: currentPage,
+    limit: Number(pageSize),
+    search: searchTerm,
+    sortBy,
+    sortOrder,
+  })
+  const products = data?.items ?? []
+  const pagination: PaginationInfo = {
+    currentPage: data?.page ?? currentPage,
+    totalPages: data?.pages ?? 1,
+    totalItems: data?.total ?? 0,
+    itemsPerPage: data?.limit ?? Number(pageSize),
+  }
 
   useEffect(() => {
-    // Check authentication
-    const token = localStorage.getItem("token")
-    if (!token) {
-      router.push("/")
-      return
-    }
-
-    // Parse token to check role
-    try {
-      const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-      if (tokenPayload.role !== "supplier") {
-        router.push("/")
-        return
-      }
-    } catch (error) {
-      router.push("/")
-      return
-    }
-
-    fetchProducts()
-  }, [router, pagination.currentPage, searchTerm, sortBy, sortOrder, pageSize])
-
-  const fetchProducts = async () => {
-    setIsLoading(true)
-    try {
-      const queryParams = new URLSearchParams({
-        page: pagination.currentPage.toString(),
-        limit: pageSize,
-        ...(searchTerm && { search: searchTerm }),
-        sortBy,
-        sortOrder,
-      })
-
-      const response = await fetch(`${API_BASE_URL}/product?${queryParams}`, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      })
-
-      if (response.ok) {
-        const data: ProductsResponse = await response.json()
-        setProducts(data.items || [])
-          setPagination({
-            currentPage: data.page,
-            totalPages: data.pages,
-            totalItems: data.total,
-            itemsPerPage: data.limit,
-          })
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to fetch products",
-          variant: "destructive",
-        })
-      }
-    } catch (error) {
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to fetch products"),
         variant: "destructive",
       })
-    } finally {
-      setIsLoading(false)
     }
-  }
+  }, [error])
 
   const handleDelete = async (productId: string) => {
     if (!confirm("Are you sure you want to delete this product?")) return
 
     try {
-      const response = await fetch(`${API_BASE_URL}/product/${productId}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
+      await api.products.remove(productId)
+      toast({
+        title: "Success",
+        description: "Product deleted successfully",
       })
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Product deleted successfully",
-        })
-        fetchProducts() // Refresh the list
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to delete product",
-          variant: "destructive",
-        })
-      }
+      invalidateQueries(queryKeys.products) // Refresh the list
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to connect to server",
+        description: getErrorMessage(error, "Failed to delete product"),
         variant: "destructive",
       })
     }
   }
 
   const handlePageChange = (newPage: number) => {
-    setPagination((prev) => ({ ...prev, currentPage: newPage }))
+    setCurrentPage(newPage)
   }
 
   const handleSearch = (value: string) => {
     setSearchTerm(value)
-    setPagination((prev) => ({ ...prev, currentPage: 1 })) // Reset to first page
+    setCurrentPage(1) // Reset to first page
   }
 
   const handleSortChange = (field: string) => {
@@ -178,16 +92,16 @@ export default function ProductsPage() {
       setSortBy(field)
       setSortOrder("asc")
     }
-    setPagination((prev) => ({ ...prev, currentPage: 1 }))
+    setCurrentPage(1)
   }
 
   const handlePageSizeChange = (newSize: string) => {
     setPageSize(newSize)
-    setPagination((prev) => ({ ...prev, currentPage: 1, itemsPerPage: Number.parseInt(newSize) }))
+    setCurrentPage(1)
   }
 
   const handleLogout = () => {
-    localStorage.removeItem("token")
+    logout()
     router.push("/")
   }
 
@@ -210,9 +124,17 @@ export default function ProductsPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center py-4">
             <h1 className="text-2xl font-bold text-gray-900">Product Management</h1>
-            <Button onClick={handleLogout} variant="outline">
-              Logout
-            </Button>
+            <div className="flex items-center space-x-4">
+              <Button onClick={() => router.push("/supplier/security")} variant="ghost">
+                Security
+              </Button>
+              <Button onClick={() => router.push("/account/password")} variant="ghost">
+                Change Password
+              </Button>
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -280,7 +202,7 @@ export default function ProductsPage() {
               </div>
             </div>
 
-            <Table>
+            <Table className={`transition-opacity ${isFetching ? "opacity-60" : ""}`}>
               <TableHeader>
                 <TableRow>
                   <TableHead className="cursor-pointer hover:bg-gray-50" onClick={() => handleSortChange("code")}>
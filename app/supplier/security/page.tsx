@@ -0,0 +1,280 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { QRCodeSVG } from "qrcode.react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { ArrowLeft, Copy, Download, ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp"
+import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { api, getErrorMessage, type TwoFactorSetup } from "@/lib/api"
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+export default function SupplierSecurityPage() {
+  const [isEnabled, setIsEnabled] = useState(false)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[]>([])
+  const [code, setCode] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+  const { session, login, logout } = useSession()
+  // The rest of the supplier area stays closed until enrolment is done
+  const isSetupRequired = Boolean(session?.twoFactorSetupRequired)
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  const fetchStatus = async () => {
+    setIsLoading(true)
+    try {
+      const data = await api.account.twoFactor.status()
+      setIsEnabled(Boolean(data.enabled))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to fetch two-factor status"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true)
+    try {
+      setSetup(await api.account.twoFactor.setup())
+      setCode("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to start two-factor setup"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // A fresh session no longer carries the setup requirement, which opens up the supplier area
+  const clearSetupRequirement = async () => {
+    try {
+      login((await api.auth.refresh()).session)
+    } catch (error) {
+      // Logging in again has the same effect
+      console.error("Failed to refresh session:", error)
+    }
+  }
+
+  // Used both to finish enrolment and to issue a fresh set of backup codes
+  const submitCode = async (action: (code: string) => Promise<{ backup_codes: string[] }>, successMessage: string) => {
+    setIsSubmitting(true)
+    try {
+      const data = await action(code)
+      setIsEnabled(true)
+      setSetup(null)
+      setBackupCodes(data.backup_codes || [])
+      if (isSetupRequired) {
+        await clearSetupRequirement()
+      }
+      toast({
+        title: "Success",
+        description: successMessage,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Invalid verification code"),
+        variant: "destructive",
+      })
+    } finally {
+      setCode("")
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault()
+    submitCode(api.account.twoFactor.enable, "Two-factor authentication enabled")
+  }
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault()
+    submitCode(api.account.twoFactor.regenerateBackupCodes, "New backup codes generated")
+  }
+
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(backupCodes.join("\n"))
+    toast({
+      title: "Copied",
+      description: "Backup codes copied to clipboard",
+    })
+  }
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([backupCodes.join("\n") + "\n"], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "backup-codes.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleLogout = () => {
+    logout()
+    router.push("/")
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              {!isSetupRequired && (
+                <Button variant="ghost" onClick={() => router.push("/supplier/products")} className="mr-4">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Products
+                </Button>
+              )}
+              <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+            </div>
+            {isSetupRequired && (
+              <Button onClick={handleLogout} variant="outline">
+                Logout
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <ShieldCheck className="h-5 w-5" />
+                <CardTitle>Two-factor authentication</CardTitle>
+              </div>
+              <Badge variant={isEnabled ? "default" : "destructive"}>{isEnabled ? "Enabled" : "Not enabled"}</Badge>
+            </div>
+            <CardDescription>
+              Supplier accounts must confirm each login with a code from an authenticator app.
+              {isSetupRequired && " Set it up now to start using your supplier account."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {!isEnabled && !setup && (
+              <Button onClick={handleStartSetup} disabled={isSubmitting}>
+                {isSubmitting ? "Starting..." : "Set up authenticator app"}
+              </Button>
+            )}
+
+            {setup && (
+              <form onSubmit={handleEnable} className="space-y-6">
+                <div className="flex flex-col sm:flex-row gap-6 items-center">
+                  <div className="bg-white p-3 border rounded-lg">
+                    <QRCodeSVG value={setup.otpauth_url} size={160} />
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    <p>1. Scan the QR code with your authenticator app.</p>
+                    <p>2. If you can&apos;t scan it, enter this key manually:</p>
+                    <p className="font-mono bg-gray-100 rounded px-2 py-1 break-all">{setup.secret}</p>
+                    <p>3. Enter the 6-digit code the app shows.</p>
+                  </div>
+                </div>
+                <div className="flex flex-col items-center space-y-4">
+                  <CodeInput value={code} onChange={setCode} />
+                  <Button type="submit" disabled={isSubmitting || code.length !== 6}>
+                    {isSubmitting ? "Verifying..." : "Verify and enable"}
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {isEnabled && backupCodes.length === 0 && (
+              <form onSubmit={handleRegenerate} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Lost your backup codes? Enter a code from your authenticator app to generate a new set. Old codes stop
+                  working.
+                </p>
+                <div className="flex items-center space-x-4">
+                  <CodeInput value={code} onChange={setCode} />
+                  <Button type="submit" variant="outline" disabled={isSubmitting || code.length !== 6}>
+                    Regenerate backup codes
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        {backupCodes.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Backup codes</CardTitle>
+              <CardDescription>
+                Each code can be used once if you lose access to your authenticator app. They won&apos;t be shown again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {backupCodes.map((backupCode) => (
+                  <div key={backupCode} className="bg-gray-100 rounded px-3 py-2 text-center">
+                    {backupCode}
+                  </div>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={handleCopyCodes}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" onClick={handleDownloadCodes}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+                <Button onClick={() => setBackupCodes([])}>I&apos;ve saved them</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react"
+import { z } from "zod"
+import { useSession } from "@/components/session-provider"
+import type { Product, ProductOption } from "@/lib/api"
+
+const cartItemSchema = z.object({
+  productId: z.string(),
+  productName: z.string(),
+  productCode: z.string(),
+  // Each supplier gets its own purchase order; carts saved before this was tracked have no supplier
+  supplierId: z.string().nullish(),
+  supplierName: z.string().nullish(),
+  optionId: z.string(),
+  optionName: z.string(),
+  price: z.number(),
+  // The unit price the buyer last saw when it has changed since; orders are always charged the current price
+  previousPrice: z.number().nullish(),
+  quantity: z.number(),
+  // Stock of the option when it was last seen; ordering more than this fails
+  maxQuantity: z.number(),
+})
+
+export type CartItem = z.infer<typeof cartItemSchema>
+
+// Why a cart line can't be ordered as it stands, or null when it can
+export function stockIssue(item: CartItem) {
+  if (item.maxQuantity <= 0) {
+    return "Out of stock"
+  }
+  if (item.quantity > item.maxQuantity) {
+    return `Only ${item.maxQuantity} left in stock`
+  }
+  return null
+}
+
+// Current unit price minus the one the buyer saw, 0 when it hasn't changed
+export function priceChange(item: CartItem) {
+  return item.previousPrice == null ? 0 : item.price - item.previousPrice
+}
+
+// Moves a line to a new price, remembering what the buyer saw until they acknowledge it
+function withPrice(item: CartItem, price: number): CartItem {
+  if (price === item.price) {
+    return item
+  }
+  const previousPrice = item.previousPrice ?? item.price
+  return { ...item, price, previousPrice: price === previousPrice ? null : previousPrice }
+}
+
+interface CartContextType {
+  items: CartItem[]
+  totalAmount: number
+  // Returns how many were actually added, which is fewer than asked once the option's stock is reached
+  addItem: (product: Product, option: ProductOption, quantity: number) => number
+  updateQuantity: (index: number, quantity: number) => void
+  removeItem: (index: number) => void
+  removeItems: (items: CartItem[]) => void
+  syncStock: (products: Product[]) => void
+  acknowledgePrices: () => void
+  clear: () => void
+}
+
+const CartContext = createContext<CartContextType | null>(null)
+
+export function useCart() {
+  const context = useContext(CartContext)
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider")
+  }
+  return context
+}
+
+// One cart per user, so two buyers sharing a browser never see each other's order
+function storageKey(username: string) {
+  return `cart:${username}`
+}
+
+function loadCart(key: string): CartItem[] {
+  try {
+    const result = z.array(cartItemSchema).safeParse(JSON.parse(localStorage.getItem(key) ?? "[]"))
+    return result.success ? result.data : []
+  } catch (error) {
+    return []
+  }
+}
+
+interface CartProviderProps {
+  children: React.ReactNode
+}
+
+// Shared by every buyer page and kept in localStorage, so the cart survives navigation, reloads and logging out
+export function CartProvider({ children }: CartProviderProps) {
+  const { session } = useSession()
+  const key = session ? storageKey(session.username) : null
+  const [items, setItems] = useState<CartItem[]>([])
+  // Always the latest cart, so several adds in a row, or one after an await, are each capped against the ones before
+  const itemsRef = useRef<CartItem[]>([])
+  // The key the current items were loaded from; nothing is saved until the stored cart has been read
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+
+  // Every change goes through here to keep itemsRef in step with the state
+  const updateItems = useCallback((update: (current: CartItem[]) => CartItem[]) => {
+    itemsRef.current = update(itemsRef.current)
+    setItems(itemsRef.current)
+  }, [])
+
+  useEffect(() => {
+    if (!key) return
+    updateItems(() => loadCart(key))
+    setLoadedKey(key)
+  }, [key, updateItems])
+
+  useEffect(() => {
+    if (!key || loadedKey !== key) return
+    if (items.length > 0) {
+      localStorage.setItem(key, JSON.stringify(items))
+    } else {
+      localStorage.removeItem(key)
+    }
+  }, [items, key, loadedKey])
+
+  // Pick up changes made in other tabs
+  useEffect(() => {
+    if (!key) return
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === key) {
+        updateItems(() => loadCart(key))
+      }
+    }
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [key, updateItems])
+
+  const addItem = useCallback(
+    (product: Product, option: ProductOption, quantity: number) => {
+      const isLine = (item: CartItem) => item.productId === product.id && item.optionId === option.id
+      const inCart = itemsRef.current.find(isLine)?.quantity ?? 0
+      const added = Math.max(0, Math.min(quantity, option.quantity - inCart))
+      if (added === 0) {
+        return 0
+      }
+
+      updateItems((current) => {
+        const existingIndex = current.findIndex(isLine)
+        if (existingIndex >= 0) {
+          return current.map((item, index) =>
+            index === existingIndex
+              ? { ...withPrice(item, option.price), quantity: item.quantity + added, maxQuantity: option.quantity }
+              : item,
+          )
+        }
+        return [
+          ...current,
+          {
+            productId: product.id,
+            productName: product.name,
+            productCode: product.code,
+            supplierId: product.supplier_id,
+            supplierName: product.supplier_name,
+            optionId: option.id,
+            optionName: option.name,
+            price: option.price,
+            quantity: added,
+            maxQuantity: option.quantity,
+          },
+        ]
+      })
+      return added
+    },
+    [updateItems],
+  )
+
+  const updateQuantity = useCallback((index: number, quantity: number) => {
+    updateItems((current) =>
+      current.map((item, i) =>
+        i === index ? { ...item, quantity: Math.max(1, Math.min(quantity, item.maxQuantity)) } : item,
+      ),
+    )
+  }, [updateItems])
+
+  const removeItem = useCallback((index: number) => {
+    updateItems((current) => current.filter((_, i) => i !== index))
+  }, [updateItems])
+
+  const removeItems = useCallback((removed: CartItem[]) => {
+    updateItems((current) =>
+      current.filter(
+        (item) =>
+          !removed.some((other) => other.productId === item.productId && other.optionId === item.optionId),
+      ),
+    )
+  }, [updateItems])
+
+  // Refresh price, stock and supplier on every cart line; quantities are left alone so the buyer can see what changed
+  const syncStock = useCallback((products: Product[]) => {
+    updateItems((current) =>
+      current.map((item) => {
+        const product = products.find((candidate) => candidate.id === item.productId)
+        const option = product?.options.find((candidate) => candidate.id === item.optionId)
+        const maxQuantity = option?.quantity ?? 0
+        const supplierId = product?.supplier_id ?? item.supplierId
+        const supplierName = product?.supplier_name ?? item.supplierName
+        const repriced = option ? withPrice(item, option.price) : item
+        if (
+          repriced === item &&
+          maxQuantity === item.maxQuantity &&
+          supplierId === item.supplierId &&
+          supplierName === item.supplierName
+        ) {
+          return item
+        }
+        return { ...repriced, maxQuantity, supplierId, supplierName }
+      }),
+    )
+  }, [updateItems])
+
+  const acknowledgePrices = useCallback(() => {
+    updateItems((current) =>
+      current.map((item) => (item.previousPrice == null ? item : { ...item, previousPrice: null })),
+    )
+  }, [updateItems])
+
+  const clear = useCallback(() => {
+    updateItems(() => [])
+  }, [updateItems])
+
+  const totalAmount = items.reduce((total, item) => total + item.price * item.quantity, 0)
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        totalAmount,
+        addItem,
+        updateQuantity,
+        removeItem,
+        removeItems,
+        syncStock,
+        acknowledgePrices,
+        clear,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  )
+}
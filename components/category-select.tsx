@@ -0,0 +1,48 @@
+"use client"
+
+import { useMemo } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCategories } from "@/hooks/use-api"
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories"
+import { cn } from "@/lib/utils"
+
+// Select items can't have an empty value, so "no category" gets a stand-in. Category ids are prefixed so that
+// no id, whatever it is, can be mistaken for it.
+const NO_CATEGORY = "none"
+const CATEGORY_PREFIX = "category:"
+
+interface CategorySelectProps {
+  // Category id, or "" for none
+  value: string
+  onChange: (value: string) => void
+  // Label of the entry that clears the selection, e.g. "All Categories"
+  emptyLabel: string
+  className?: string
+  disabled?: boolean
+}
+
+// Category dropdown fed by the API, with subcategories indented under their parent
+export function CategorySelect({ value, onChange, emptyLabel, className, disabled }: CategorySelectProps) {
+  const { data: categories = [], isLoading } = useCategories()
+  const options = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories])
+
+  return (
+    <Select
+      value={value ? CATEGORY_PREFIX + value : NO_CATEGORY}
+      onValueChange={(selected) => onChange(selected === NO_CATEGORY ? "" : selected.slice(CATEGORY_PREFIX.length))}
+      disabled={disabled || isLoading}
+    >
+      <SelectTrigger className={cn("w-48", className)}>
+        <SelectValue placeholder={isLoading ? "Loading categories..." : "Category"} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>{emptyLabel}</SelectItem>
+        {options.map((category) => (
+          <SelectItem key={category.id} value={CATEGORY_PREFIX + category.id}>
+            <span style={{ paddingLeft: `${category.depth * 0.75}rem` }}>{category.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
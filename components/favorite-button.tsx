@@ -0,0 +1,63 @@
+"use client"
+
+import { useState } from "react"
+import { Heart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { queryKeys, useFavorites } from "@/hooks/use-api"
+import { setQueryData } from "@/hooks/use-query"
+import { api, getErrorMessage, type Favorite } from "@/lib/api"
+import { cn } from "@/lib/utils"
+
+interface FavoriteButtonProps {
+  product: { id: string; name: string }
+  className?: string
+}
+
+// Heart toggle shared by the marketplace, the product page and the favorites list
+export function FavoriteButton({ product, className }: FavoriteButtonProps) {
+  const [isPending, setIsPending] = useState(false)
+  const { toast } = useToast()
+  const { data: favorites = [] } = useFavorites()
+  const isFavorite = favorites.some((favorite) => favorite.product_id === product.id)
+
+  const handleToggle = async () => {
+    setIsPending(true)
+    try {
+      if (isFavorite) {
+        await api.favorites.remove(product.id)
+        setQueryData<Favorite[]>(queryKeys.favorites, (previous = []) =>
+          previous.filter((favorite) => favorite.product_id !== product.id),
+        )
+      } else {
+        const favorite = await api.favorites.add(product.id)
+        setQueryData<Favorite[]>(queryKeys.favorites, (previous = []) => [
+          favorite,
+          ...previous.filter((candidate) => candidate.product_id !== product.id),
+        ])
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update favorites"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleToggle}
+      disabled={isPending}
+      aria-label={isFavorite ? `Remove ${product.name} from favorites` : `Add ${product.name} to favorites`}
+      aria-pressed={isFavorite}
+      className={cn("h-8 w-8 p-0", className)}
+    >
+      <Heart className={cn("h-4 w-4", isFavorite ? "fill-red-500 text-red-500" : "text-gray-400")} />
+    </Button>
+  )
+}
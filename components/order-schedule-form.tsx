@@ -0,0 +1,263 @@
+"use client"
+
+import { useMemo } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useOrderTemplates } from "@/hooks/use-api"
+import type { OrderScheduleInput } from "@/lib/api"
+import { localTimeZone, nextCronRuns, validateCron } from "@/lib/cron"
+import {
+  buildCron,
+  DEFAULT_RULE_VALUES,
+  formatRunDate,
+  FREQUENCY_LABELS,
+  MONTH_DAYS,
+  toScheduleInput,
+  WEEKDAYS,
+  type ScheduleRuleValues,
+} from "@/lib/order-schedules"
+
+const PREVIEW_RUNS = 5
+
+// The "never comes round" check has to look ahead in the zone the rule will run in
+function scheduleFormSchema(timeZone: string) {
+  return z
+    .object({
+      templateId: z.string().min(1, "Choose a template"),
+      frequency: z.enum(["weekly", "monthly", "custom"]),
+      weekday: z.string(),
+      dayOfMonth: z.string(),
+      time: z.string().regex(/^\d{2}:\d{2}$/, "Choose a time"),
+      cron: z.string(),
+    })
+    .superRefine((values, ctx) => {
+      if (values.frequency !== "custom") return
+      const error = validateCron(values.cron)
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cron"], message: error })
+      } else if (nextCronRuns(values.cron, new Date(), 1, timeZone).length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cron"], message: "This rule never comes round" })
+      }
+    })
+}
+
+export type ScheduleFormValues = z.infer<ReturnType<typeof scheduleFormSchema>>
+
+interface OrderScheduleFormProps {
+  // Only read on mount, so render the form once the schedule being edited has loaded
+  defaultValues?: Partial<ScheduleFormValues>
+  // The zone the rule is read in; a new schedule takes the buyer's own
+  timeZone?: string
+  submitLabel: string
+  onSubmit: (input: OrderScheduleInput) => Promise<void>
+  onCancel?: () => void
+}
+
+// Picks a template and when to place it, with a preview of the next few runs
+export function OrderScheduleForm({
+  defaultValues,
+  timeZone = localTimeZone(),
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: OrderScheduleFormProps) {
+  const { data: templates = [], isLoading: isLoadingTemplates } = useOrderTemplates()
+  const schema = useMemo(() => scheduleFormSchema(timeZone), [timeZone])
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { templateId: "", ...DEFAULT_RULE_VALUES, ...defaultValues },
+  })
+
+  const frequency = form.watch("frequency")
+  const rule: ScheduleRuleValues = {
+    frequency,
+    weekday: form.watch("weekday"),
+    dayOfMonth: form.watch("dayOfMonth"),
+    time: form.watch("time"),
+    cron: form.watch("cron"),
+  }
+  const cron = /^\d{2}:\d{2}$/.test(rule.time) ? buildCron(rule) : ""
+  const preview = useMemo(
+    () => (cron && !validateCron(cron) ? nextCronRuns(cron, new Date(), PREVIEW_RUNS, timeZone) : null),
+    [cron, timeZone],
+  )
+
+  const handleSubmit = (values: ScheduleFormValues) => onSubmit(toScheduleInput(values.templateId, values, timeZone))
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="templateId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Template</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={isLoadingTemplates}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={isLoadingTemplates ? "Loading templates..." : "Select template"} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!isLoadingTemplates && templates.length === 0 && (
+                <p className="text-sm text-gray-500">Save a cart or past order as a template first.</p>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="frequency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repeat</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {frequency === "custom" ? (
+          <FormField
+            control={form.control}
+            name="cron"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rule</FormLabel>
+                <FormControl>
+                  <Input className="font-mono" placeholder="0 9 * * 1-5" {...field} />
+                </FormControl>
+                <FormDescription>
+                  Minute, hour, day of month, month and day of week, as in cron. "0 9 * * 1-5" is every weekday at
+                  09:00.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {frequency === "weekly" ? (
+              <FormField
+                control={form.control}
+                name="weekday"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Day</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {WEEKDAYS.map((name, index) => (
+                          <SelectItem key={name} value={String(index)}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="dayOfMonth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Day of month</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MONTH_DAYS.map((day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="time"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time</FormLabel>
+                  <FormControl>
+                    <Input type="time" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="rounded-lg border p-3 text-sm">
+          <p className="font-medium text-gray-900 mb-2">Next runs</p>
+          {preview && preview.length > 0 ? (
+            <ul className="space-y-1 text-gray-600">
+              {preview.map((run) => (
+                <li key={run.toISOString()}>{formatRunDate(run, timeZone)}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500">
+              {preview ? "This rule never comes round" : "Enter a valid rule to see when it runs"}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { ClipboardList } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useOrderTemplates } from "@/hooks/use-api"
+import { useLoadOrderTemplate } from "@/hooks/use-load-order-template"
+
+// Loads a saved template into the cart in one click
+export function OrderTemplateMenu() {
+  const router = useRouter()
+  const { data: templates = [], isLoading } = useOrderTemplates()
+  const { loadTemplate, loadingId } = useLoadOrderTemplate()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={loadingId !== null}>
+          <ClipboardList className="h-4 w-4 mr-2" />
+          {loadingId ? "Loading..." : "Templates"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Load into cart</DropdownMenuLabel>
+        {isLoading ? (
+          <DropdownMenuItem disabled>Loading templates...</DropdownMenuItem>
+        ) : templates.length === 0 ? (
+          <DropdownMenuItem disabled>No saved templates yet</DropdownMenuItem>
+        ) : (
+          templates.map((template) => (
+            <DropdownMenuItem key={template.id} onSelect={() => loadTemplate(template)}>
+              <span className="flex-1 truncate">{template.name}</span>
+              <span className="text-xs text-gray-500">
+                {template.items.length} line{template.items.length !== 1 ? "s" : ""}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => router.push("/buyer/templates")}>Manage templates</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => router.push("/buyer/schedules")}>Recurring orders</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,25 @@
+import { Check, X } from "lucide-react"
+import { passwordRules } from "@/lib/password"
+
+interface PasswordRequirementsProps {
+  password: string
+}
+
+export function PasswordRequirements({ password }: PasswordRequirementsProps) {
+  return (
+    <ul className="grid grid-cols-2 gap-1 pt-1">
+      {passwordRules.map((rule) => {
+        const passed = rule.test(password)
+        return (
+          <li
+            key={rule.label}
+            className={`flex items-center text-xs ${passed ? "text-green-600" : "text-gray-500"}`}
+          >
+            {passed ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+            {rule.label}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
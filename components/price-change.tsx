@@ -0,0 +1,18 @@
+import { cn } from "@/lib/utils"
+
+interface PriceChangeProps {
+  // New unit price minus the old one
+  change: number
+}
+
+// Red when a line got dearer, green when it got cheaper, nothing when the price is unchanged
+export function PriceChange({ change }: PriceChangeProps) {
+  if (change === 0) {
+    return null
+  }
+  return (
+    <span className={cn("block text-xs", change > 0 ? "text-red-600" : "text-green-600")}>
+      {change > 0 ? "+" : "-"}¥{Math.abs(change).toLocaleString()}
+    </span>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import type { FacetValue, ProductFacets } from "@/lib/api"
+
+const PRICE_STEP = 100
+
+export interface FacetFilters {
+  minPrice?: number
+  maxPrice?: number
+  inStock: boolean
+  suppliers: string[]
+  options: string[]
+}
+
+export const EMPTY_FACET_FILTERS: FacetFilters = {
+  minPrice: undefined,
+  maxPrice: undefined,
+  inStock: false,
+  suppliers: [],
+  options: [],
+}
+
+interface FacetListProps {
+  title: string
+  values: FacetValue[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+}
+
+// Checkbox per value; selected values stay listed even when nothing matches them any more, so they can be unticked
+function FacetList({ title, values, selected, onChange }: FacetListProps) {
+  const missing = selected
+    .filter((value) => !values.some((facet) => facet.value === value))
+    .map((value) => ({ value, label: value, count: 0 }))
+  const entries = [...values, ...missing]
+
+  if (entries.length === 0) {
+    return null
+  }
+
+  const toggle = (value: string, checked: boolean) => {
+    onChange(checked ? [...selected, value] : selected.filter((candidate) => candidate !== value))
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {entries.map((facet) => {
+        const id = `${title}-${facet.value}`
+        return (
+          <div key={facet.value} className="flex items-center space-x-2">
+            <Checkbox
+              id={id}
+              checked={selected.includes(facet.value)}
+              onCheckedChange={(checked) => toggle(facet.value, checked === true)}
+            />
+            <Label htmlFor={id} className="flex-1 text-sm font-normal cursor-pointer">
+              {facet.label}
+            </Label>
+            <span className="text-xs text-gray-500">{facet.count}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface ProductFacetsPanelProps {
+  facets: ProductFacets | null | undefined
+  filters: FacetFilters
+  onChange: (changes: Partial<FacetFilters>) => void
+}
+
+// Filter sidebar for the marketplace; the counts come with each product page from the API
+export function ProductFacetsPanel({ facets, filters, onChange }: ProductFacetsPanelProps) {
+  const bounds = facets?.price
+  const [priceRange, setPriceRange] = useState<number[]>([])
+
+  // The slider moves freely while dragging and only filters once it is let go
+  useEffect(() => {
+    if (bounds) {
+      setPriceRange([filters.minPrice ?? bounds.min, filters.maxPrice ?? bounds.max])
+    }
+  }, [bounds?.min, bounds?.max, filters.minPrice, filters.maxPrice])
+
+  const handlePriceCommit = ([min, max]: number[]) => {
+    if (!bounds) return
+    onChange({
+      minPrice: min > bounds.min ? min : undefined,
+      maxPrice: max < bounds.max ? max : undefined,
+    })
+  }
+
+  const hasFilters =
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.inStock ||
+    filters.suppliers.length > 0 ||
+    filters.options.length > 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Filters</h3>
+        {hasFilters && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onChange(EMPTY_FACET_FILTERS)}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {bounds && bounds.max > bounds.min && priceRange.length === 2 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Price</h4>
+          <Slider
+            min={bounds.min}
+            max={bounds.max}
+            step={PRICE_STEP}
+            minStepsBetweenThumbs={1}
+            value={priceRange}
+            onValueChange={setPriceRange}
+            onValueCommit={handlePriceCommit}
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>¥{priceRange[0].toLocaleString()}</span>
+            <span>¥{priceRange[1].toLocaleString()}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="facet-in-stock"
+          checked={filters.inStock}
+          onCheckedChange={(checked) => onChange({ inStock: checked === true })}
+        />
+        <Label htmlFor="facet-in-stock" className="flex-1 text-sm font-normal cursor-pointer">
+          In stock only
+        </Label>
+        {facets && <span className="text-xs text-gray-500">{facets.in_stock}</span>}
+      </div>
+
+      <FacetList
+        title="Supplier"
+        values={facets?.suppliers ?? []}
+        selected={filters.suppliers}
+        onChange={(suppliers) => onChange({ suppliers })}
+      />
+
+      <FacetList
+        title="Option"
+        values={facets?.options ?? []}
+        selected={filters.options}
+        onChange={(options) => onChange({ options })}
+      />
+    </div>
+  )
+}
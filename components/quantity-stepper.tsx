@@ -0,0 +1,50 @@
+"use client"
+
+import { Minus, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+interface QuantityStepperProps {
+  value: number
+  // Leave out for no upper limit
+  max?: number
+  onChange: (value: number) => void
+  className?: string
+}
+
+// Compact minus / input / plus control for cart lines
+export function QuantityStepper({ value, max, onChange, className }: QuantityStepperProps) {
+  return (
+    <div className={cn("flex items-center space-x-1", className)}>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 w-7 p-0"
+        onClick={() => onChange(value - 1)}
+        disabled={value <= 1}
+        aria-label="Decrease quantity"
+      >
+        <Minus className="h-3 w-3" />
+      </Button>
+      <Input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(Number.parseInt(e.target.value) || 1)}
+        className="h-7 w-14 px-1 text-center text-xs"
+        min="1"
+        max={max}
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 w-7 p-0"
+        onClick={() => onChange(value + 1)}
+        disabled={max !== undefined && value >= max}
+        aria-label="Increase quantity"
+      >
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import { useRouter } from "next/navigation"
+import { AlertTriangle, ShoppingCart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useCart } from "@/components/cart-provider"
+import { PriceChange } from "@/components/price-change"
+import { useProductStock } from "@/hooks/use-api"
+import { getErrorMessage, type PurchaseOrder } from "@/lib/api"
+import { buildReorder, type ReorderLine } from "@/lib/reorder"
+
+const WARNINGS: Partial<Record<ReorderLine["status"], string>> = {
+  discontinued: "no longer sold",
+  out_of_stock: "out of stock",
+}
+
+interface ReorderDialogProps {
+  order: PurchaseOrder
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Rebuilds the cart from a past order at today's prices and stock
+export function ReorderDialog({ order, open, onOpenChange }: ReorderDialogProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { items: cart, addItem } = useCart()
+  const productIds = useMemo(
+    () => Array.from(new Set(order.items.map((item) => item.product_id))).sort(),
+    [order.items],
+  )
+  // Only looked up while the dialog is open, and fresh every time it opens
+  const { data: products, error, isLoading } = useProductStock(open ? productIds : [])
+
+  const lines = useMemo(() => (products ? buildReorder(order.items, products) : []), [order.items, products])
+  const orderable = lines.filter((line) => line.available > 0)
+  const dropped = lines.filter((line) => line.available === 0)
+  const total = orderable.reduce((sum, line) => sum + line.option!.price * line.available, 0)
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load current prices"),
+        variant: "destructive",
+      })
+    }
+  }, [error])
+
+  const handleAddToCart = () => {
+    let added = 0
+    orderable.forEach((line) => {
+      added += addItem(line.product!, line.option!, line.available)
+    })
+    toast({
+      title: "Added to cart",
+      description: `${added} items from order #${order.order_number}`,
+    })
+    onOpenChange(false)
+    router.push("/buyer/checkout")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Reorder #{order.order_number}</DialogTitle>
+          <DialogDescription>Prices and stock as they are today, compared with the original order.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || (!products && !error) ? (
+          <div className="py-8 text-center text-gray-500">Checking current prices and stock...</div>
+        ) : (
+          <div className="space-y-4">
+            {dropped.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {dropped.length} item{dropped.length !== 1 ? "s" : ""} can't be reordered
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-5 mt-2 space-y-1">
+                    {dropped.map((line) => (
+                      <li key={line.item.id}>
+                        {line.item.product_name} - {line.item.product_option_name} is {WARNINGS[line.status]}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {orderable.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Was</TableHead>
+                    <TableHead>Now</TableHead>
+                    <TableHead>Subtotal</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orderable.map((line) => (
+                    <TableRow key={line.item.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product!.name}</div>
+                        <div className="text-xs text-gray-500">{line.option!.name}</div>
+                      </TableCell>
+                      <TableCell>
+                        {line.available}
+                        {line.status === "partial" && (
+                          <p className="text-xs text-red-600">Only {line.available} of {line.item.quantity} in stock</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-gray-500">¥{line.item.unit_price.toLocaleString()}</TableCell>
+                      <TableCell>
+                        ¥{line.option!.price.toLocaleString()}
+                        <PriceChange change={line.option!.price - line.item.unit_price} />
+                      </TableCell>
+                      <TableCell className="font-semibold">
+                        ¥{(line.option!.price * line.available).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {orderable.length > 0 && (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-500">
+                  Originally {order.currency} {order.total_amount.toLocaleString()}
+                </span>
+                <span className="text-lg font-semibold">Now ¥{total.toLocaleString()}</span>
+              </div>
+            )}
+
+            {cart.length > 0 && orderable.length > 0 && (
+              <p className="text-sm text-gray-500">
+                These items are added to the {cart.length} already in your cart.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAddToCart} disabled={orderable.length === 0}>
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Add {orderable.length} to Cart
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
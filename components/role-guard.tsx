@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useSession } from "@/components/session-provider"
+import { loginPath, twoFactorRedirect, type UserRole } from "@/lib/auth"
+
+interface RoleGuardProps {
+  // Any logged-in user is let through when no role is given
+  role?: UserRole
+  children: React.ReactNode
+}
+
+// Renders nothing until the session is known to belong to the given role
+export function RoleGuard({ role, children }: RoleGuardProps) {
+  const { session, status } = useSession()
+  const router = useRouter()
+  const pathname = usePathname()
+  const isAllowed = status === "authenticated" && (!role || session?.role === role)
+  // Only the supplier area waits on two-factor setup, so suppliers can still reach e.g. /account meanwhile
+  const setupPath = isAllowed && role === "supplier" ? twoFactorRedirect(session!, pathname) : null
+
+  useEffect(() => {
+    if (status === "expired") {
+      router.replace(loginPath({ expired: true, returnUrl: pathname }))
+    } else if (status !== "loading" && !isAllowed) {
+      router.replace(loginPath())
+    } else if (setupPath) {
+      router.replace(setupPath)
+    }
+  }, [status, isAllowed, setupPath, router, pathname])
+
+  if (!isAllowed || setupPath) {
+    return null
+  }
+
+  return <>{children}</>
+}
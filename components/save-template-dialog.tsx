@@ -0,0 +1,99 @@
+"use client"
+
+import { useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import { invalidateQueries } from "@/hooks/use-query"
+import { queryKeys } from "@/hooks/use-api"
+import { api, ApiError, getErrorMessage, type OrderTemplateInput } from "@/lib/api"
+import { templateNameSchema } from "@/lib/order-templates"
+
+const saveTemplateSchema = z.object({ name: templateNameSchema })
+
+type SaveTemplateValues = z.infer<typeof saveTemplateSchema>
+
+interface SaveTemplateDialogProps {
+  items: OrderTemplateInput["items"]
+  defaultName?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Saves the given lines under a name so they can be loaded into the cart again later
+export function SaveTemplateDialog({ items, defaultName = "", open, onOpenChange }: SaveTemplateDialogProps) {
+  const { toast } = useToast()
+  const form = useForm<SaveTemplateValues>({
+    resolver: zodResolver(saveTemplateSchema),
+    defaultValues: { name: defaultName },
+  })
+
+  useEffect(() => {
+    if (open) form.reset({ name: defaultName })
+  }, [open])
+
+  const handleSave = async (values: SaveTemplateValues) => {
+    try {
+      await api.orderTemplates.create({ name: values.name, items })
+      invalidateQueries(queryKeys.orderTemplates)
+      toast({
+        title: "Template saved",
+        description: `"${values.name}" with ${items.length} line${items.length !== 1 ? "s" : ""}`,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        form.setError("name", { message: getErrorMessage(error, "That name is already taken") })
+        return
+      }
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save template"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keep these {items.length} line{items.length !== 1 ? "s" : ""} to load into the cart again later.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Weekly store restock" autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save Template"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { OrderScheduleRun } from "@/lib/api"
+
+const RUN_STATUS_LABELS: Record<OrderScheduleRun["status"], string> = {
+  placed: "Placed",
+  partial: "Partly placed",
+  failed: "Failed",
+  skipped: "Skipped",
+}
+
+const getRunStatusColor = (status: OrderScheduleRun["status"]) => {
+  switch (status) {
+    case "placed":
+      return "default"
+    case "failed":
+      return "destructive"
+    default:
+      return "secondary"
+  }
+}
+
+export function ScheduleRunBadge({ status }: { status: OrderScheduleRun["status"] }) {
+  return <Badge variant={getRunStatusColor(status)}>{RUN_STATUS_LABELS[status]}</Badge>
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react"
+import { clearQueryCache } from "@/hooks/use-query"
+import { api, setUnauthorizedHandler } from "@/lib/api"
+import type { Session } from "@/lib/auth"
+
+// Refresh the token this long before it expires
+const REFRESH_LEEWAY_MS = 60 * 1000
+
+// Browsers run a timeout longer than this straight away
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+type SessionStatus = "loading" | "authenticated" | "unauthenticated" | "expired"
+
+interface SessionContextType {
+  session: Session | null
+  status: SessionStatus
+  login: (session: Session | null) => void
+  logout: () => Promise<void>
+}
+
+const SessionContext = createContext<SessionContextType | null>(null)
+
+export function useSession() {
+  const context = useContext(SessionContext)
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider")
+  }
+  return context
+}
+
+interface SessionProviderProps {
+  children: React.ReactNode
+}
+
+export function SessionProvider({ children }: SessionProviderProps) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [status, setStatus] = useState<SessionStatus>("loading")
+  const sessionRef = useRef<Session | null>(null)
+  sessionRef.current = session
+
+  // Restore the session from the HttpOnly cookie on mount
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        const data = await api.auth.session()
+        setSession(data.session)
+        setStatus(data.session ? "authenticated" : data.expired ? "expired" : "unauthenticated")
+      } catch (error) {
+        console.error("Failed to restore session:", error)
+        setStatus("unauthenticated")
+      }
+    }
+
+    restoreSession()
+  }, [])
+
+  const login = useCallback((next: Session | null) => {
+    setSession(next)
+    setStatus(next ? "authenticated" : "unauthenticated")
+  }, [])
+
+  const logout = useCallback(async () => {
+    clearQueryCache()
+    setSession(null)
+    setStatus("unauthenticated")
+    try {
+      await api.auth.logout()
+    } catch (error) {
+      console.error("Failed to clear session:", error)
+    }
+  }, [])
+
+  const expire = useCallback(() => {
+    clearQueryCache()
+    setSession(null)
+    setStatus("expired")
+  }, [])
+
+  // Silently refresh the token ahead of its expiry
+  useEffect(() => {
+    if (!session?.expiresAt) {
+      return
+    }
+
+    const expiresAt = session.expiresAt
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    // Waits in steps of at most MAX_TIMEOUT_MS so a long-lived token isn't refreshed straight away
+    const runAt = (time: number, callback: () => void) => {
+      const delay = time - Date.now()
+      if (delay > MAX_TIMEOUT_MS) {
+        timer = setTimeout(() => runAt(time, callback), MAX_TIMEOUT_MS)
+      } else {
+        timer = setTimeout(callback, Math.max(0, delay))
+      }
+    }
+
+    const refresh = async () => {
+      try {
+        const data = await api.auth.refresh()
+        login(data.session)
+        return
+      } catch (error) {
+        console.error("Failed to refresh session:", error)
+      }
+
+      // Keep the current token until it actually runs out
+      runAt(expiresAt, expire)
+    }
+
+    runAt(expiresAt - REFRESH_LEEWAY_MS, refresh)
+
+    return () => clearTimeout(timer)
+  }, [session, login, expire])
+
+  // Treat a 401 from the API as an expired session while logged in
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      if (sessionRef.current) {
+        expire()
+      }
+    })
+    return () => setUnauthorizedHandler(null)
+  }, [expire])
+
+  return <SessionContext.Provider value={{ session, status, login, logout }}>{children}</SessionContext.Provider>
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { TableBody } from "@/components/ui/table"
+import { useWindowVirtualizer } from "@/hooks/use-window-virtualizer"
+
+interface VirtualGridProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T) => React.ReactNode
+  // As many columns as fit at this width
+  minItemWidth: number
+  estimateRowHeight: number
+  // Called when the last rows come into view, e.g. to load the next page
+  onEndReached?: () => void
+}
+
+const GAP = 16
+
+// Card grid that only renders the rows around the viewport, so it stays responsive with thousands of items
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  minItemWidth,
+  estimateRowHeight,
+  onEndReached,
+}: VirtualGridProps<T>) {
+  const [columns, setColumns] = useState(1)
+  const rowCount = Math.ceil(items.length / columns)
+  const { containerRef, measureRow, start, end, paddingTop, paddingBottom } = useWindowVirtualizer({
+    count: rowCount,
+    estimateSize: estimateRowHeight,
+  })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      setColumns(Math.max(1, Math.floor((entry.contentRect.width + GAP) / (minItemWidth + GAP))))
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [minItemWidth])
+
+  useEffect(() => {
+    if (rowCount > 0 && end >= rowCount) {
+      onEndReached?.()
+    }
+  }, [end, rowCount, onEndReached])
+
+  return (
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {Array.from({ length: end - start }, (_, offset) => {
+        const row = items.slice((start + offset) * columns, (start + offset + 1) * columns)
+        return (
+          <div
+            key={start + offset}
+            ref={measureRow}
+            className="grid"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap: GAP, paddingBottom: GAP }}
+          >
+            {row.map((item) => (
+              <div key={getKey(item)}>{renderItem(item)}</div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface VirtualTableBodyProps<T> {
+  items: T[]
+  // The row must pass `measureRef` to its <TableRow> so its height can be measured
+  renderRow: (item: T, measureRef: (element: HTMLTableRowElement | null) => void) => React.ReactNode
+  columns: number
+  estimateRowHeight: number
+  onEndReached?: () => void
+}
+
+// Table body counterpart of VirtualGrid; empty spacer rows keep the scroll height of the rows left out
+export function VirtualTableBody<T>({ items, renderRow, columns, estimateRowHeight, onEndReached }: VirtualTableBodyProps<T>) {
+  const { containerRef, measureRow, start, end, paddingTop, paddingBottom } =
+    useWindowVirtualizer<HTMLTableSectionElement>({ count: items.length, estimateSize: estimateRowHeight, overscan: 10 })
+
+  useEffect(() => {
+    if (items.length > 0 && end >= items.length) {
+      onEndReached?.()
+    }
+  }, [end, items.length, onEndReached])
+
+  return (
+    <TableBody ref={containerRef}>
+      {paddingTop > 0 && (
+        <tr aria-hidden>
+          <td colSpan={columns} style={{ height: paddingTop, padding: 0 }} />
+        </tr>
+      )}
+      {items.slice(start, end).map((item) => renderRow(item, measureRow))}
+      {paddingBottom > 0 && (
+        <tr aria-hidden>
+          <td colSpan={columns} style={{ height: paddingBottom, padding: 0 }} />
+        </tr>
+      )}
+    </TableBody>
+  )
+}
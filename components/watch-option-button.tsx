@@ -0,0 +1,61 @@
+"use client"
+
+import { Bell, BellRing } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useWatches } from "@/hooks/use-api"
+import { useWatchActions } from "@/hooks/use-watch-actions"
+import type { ProductOption, WatchInput } from "@/lib/api"
+
+interface WatchOptionButtonProps {
+  option: ProductOption
+}
+
+const NO_ALERTS: WatchInput = { price_drop: false, back_in_stock: false }
+
+// Bell per product option; the popover picks which changes to be alerted about
+export function WatchOptionButton({ option }: WatchOptionButtonProps) {
+  const { data: watches = [] } = useWatches()
+  const { saveWatch, pendingId } = useWatchActions()
+  const watch = watches.find((candidate) => candidate.product_option_id === option.id)
+  const alerts: WatchInput = watch ? { price_drop: watch.price_drop, back_in_stock: watch.back_in_stock } : NO_ALERTS
+
+  const handleChange = (key: keyof WatchInput, checked: boolean) => saveWatch(option.id, { ...alerts, [key]: checked })
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label={`Alerts for ${option.name}`}>
+          {watch ? <BellRing className="h-4 w-4 text-amber-500" /> : <Bell className="h-4 w-4 text-gray-400" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-sm font-medium">Alert me when {option.name}</p>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`watch-price-${option.id}`}
+            checked={alerts.price_drop}
+            disabled={pendingId === option.id}
+            onCheckedChange={(checked) => handleChange("price_drop", checked === true)}
+          />
+          <Label htmlFor={`watch-price-${option.id}`} className="font-normal">
+            drops in price
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`watch-stock-${option.id}`}
+            checked={alerts.back_in_stock}
+            disabled={pendingId === option.id}
+            onCheckedChange={(checked) => handleChange("back_in_stock", checked === true)}
+          />
+          <Label htmlFor={`watch-stock-${option.id}`} className="font-normal">
+            comes back in stock
+          </Label>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
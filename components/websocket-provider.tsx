@@ -1,12 +1,28 @@
 "use client"
 
-import { createContext, useContext, useEffect, useState } from "react"
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
 import useWebSocket, { ReadyState } from "react-use-websocket"
+import type { z } from "zod"
 import { useToast } from "@/hooks/use-toast"
+import { useSession } from "@/components/session-provider"
+import { queryKeys } from "@/hooks/use-api"
+import { invalidateQueries } from "@/hooks/use-query"
+import {
+  api,
+  backInStockEventSchema,
+  orderUpdatedEventSchema,
+  priceDroppedEventSchema,
+  productSchema,
+  type Product,
+} from "@/lib/api"
+import { MOCK_BACKEND_WS_URL, USE_MOCK_BACKEND } from "@/lib/mock-backend"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { X, Package, Eye } from 'lucide-react'
+import { X, Package, Eye, BellRing } from 'lucide-react'
+
+const WS_URL = USE_MOCK_BACKEND ? MOCK_BACKEND_WS_URL : process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:8080/ws"
 
 interface WebSocketMessage {
   event: string
@@ -14,22 +30,24 @@ interface WebSocketMessage {
   message?: string
 }
 
-interface ProductCreatedData {
-  id: string
-  code: string
-  name: string
-  img: string
-  options: Array<{
-    id: string
-    name: string
-    price: number
-    quantity: number
-  }>
+type ProductCreatedData = Product
+type OrderUpdatedData = z.infer<typeof orderUpdatedEventSchema>
+type WatchAlertData =
+  | ({ kind: "price_dropped" } & z.infer<typeof priceDroppedEventSchema>)
+  | ({ kind: "back_in_stock" } & z.infer<typeof backInStockEventSchema>)
+
+// Drop event payloads whose shape has drifted from what the notifications render
+function parseEventData<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, message: WebSocketMessage) {
+  const result = schema.safeParse(message.data)
+  if (!result.success) {
+    console.error(`Ignoring malformed ${message.event} event:`, result.error.issues)
+    return null
+  }
+  return result.data
 }
-interface OrderUpdatedData {
-  id: string
-  order_number: string
-  status: string
+
+function withKind<K extends WatchAlertData["kind"], T>(kind: K, data: T | null) {
+  return data && { kind, ...data }
 }
 
 interface WebSocketContextType {
@@ -150,33 +168,74 @@ function OrderNotification({ order, onClose, onView }: OrderNotificationProps) {
       </div>
   )
 }
+interface WatchNotificationProps {
+  alert: WatchAlertData
+  onClose: () => void
+  onView: () => void
+}
+
+function WatchNotification({ alert, onClose, onView }: WatchNotificationProps) {
+  return (
+    <div className="fixed top-4 right-4 z-50 w-96 animate-in slide-in-from-right duration-300">
+      <Card className="shadow-lg border-l-4 border-l-amber-500">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <BellRing className="h-5 w-5 text-amber-600" />
+              <CardTitle className="text-lg">
+                {alert.kind === "price_dropped" ? "Price Dropped" : "Back in Stock"}
+              </CardTitle>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription>
+            {alert.product_name} - {alert.product_option_name}{" "}
+            {alert.kind === "price_dropped"
+              ? `is now ¥${alert.new_price.toLocaleString()}, down from ¥${alert.old_price.toLocaleString()}.`
+              : `is available again, ${alert.quantity} in stock.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-2">
+            <Button size="sm" onClick={onView} className="flex-1">
+              <Eye className="h-4 w-4 mr-2" />
+              View Product
+            </Button>
+            <Button size="sm" variant="outline" onClick={onClose}>
+              Dismiss
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
 interface WebSocketProviderProps {
   children: React.ReactNode
 }
 
 export function WebSocketProvider({ children }: WebSocketProviderProps) {
-  const [userRole, setUserRole] = useState<string | null>(null)
+  const { session } = useSession()
+  const userRole = session?.role ?? null
   const [showNotification, setShowNotification] = useState(false)
   const [newProduct, setNewProduct] = useState<ProductCreatedData | null>(null)
   const { toast } = useToast()
+  const router = useRouter()
   const [showOrderNotification, setShowOrderNotification] = useState(false)
   const [updatedOrder, setUpdatedOrder] = useState<OrderUpdatedData | null>(null)
-
-  // Check user role on mount
-  useEffect(() => {
-    const token = localStorage.getItem("token")
-    if (token) {
-      try {
-        const tokenPayload = JSON.parse(atob(token.split(".")[1]))
-        setUserRole(tokenPayload.role)
-      } catch (error) {
-        console.error("Failed to parse token:", error)
-      }
-    }
+  const [showWatchNotification, setShowWatchNotification] = useState(false)
+  const [watchAlert, setWatchAlert] = useState<WatchAlertData | null>(null)
+  // Each connection gets a fresh ticket, so the backend only sends this buyer their own alerts
+  const getSocketUrl = useCallback(async () => {
+    const { ticket } = await api.events.ticket()
+    return `${WS_URL}?ticket=${encodeURIComponent(ticket)}`
   }, [])
 
   const { lastMessage, readyState } = useWebSocket(
-    "ws://localhost:8080/ws",
+    getSocketUrl,
     {
       onOpen: () => {
         console.log("WebSocket connected")
@@ -197,6 +256,7 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
         })
       },
       shouldReconnect: (closeEvent) => true, // Auto-reconnect
+      retryOnError: true, // Also retry when the ticket can't be fetched
       reconnectAttempts: 10,
       reconnectInterval: 3000,
     },
@@ -210,23 +270,44 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
         const message: WebSocketMessage = JSON.parse(lastMessage.data)
         console.log("Received WebSocket message:", message)
 
-        if (message.event === "product_created" && message.data) {
-          const productData = message.data as ProductCreatedData
-          setNewProduct(productData)
-          setShowNotification(true)
+        if (message.event === "product_created") {
+          const productData = parseEventData(productSchema, message)
+          if (productData) {
+            setNewProduct(productData)
+            setShowNotification(true)
+
+            setTimeout(() => {
+              setShowNotification(false)
+            }, 100000)
+          }
+        }
+        if (message.event === "order_updated") {
+          const orderData = parseEventData(orderUpdatedEventSchema, message)
+          if (orderData) {
+            setUpdatedOrder(orderData)
+            setShowOrderNotification(true)
 
-          setTimeout(() => {
-            setShowNotification(false)
-          }, 100000)
+            setTimeout(() => {
+              setShowOrderNotification(false)
+            }, 100000)
+          }
         }
-        if (message.event === "order_updated" && message.data) {
-          const orderData = message.data as OrderUpdatedData
-          setUpdatedOrder(orderData)
-          setShowOrderNotification(true)
+        if (message.event === "price_dropped" || message.event === "back_in_stock") {
+          const alertData =
+            message.event === "price_dropped"
+              ? withKind("price_dropped", parseEventData(priceDroppedEventSchema, message))
+              : withKind("back_in_stock", parseEventData(backInStockEventSchema, message))
+          if (alertData) {
+            // Just the product this buyer is watching; refetching every product list would reset infinite scrolling
+            invalidateQueries(queryKeys.product(alertData.product_id))
+            invalidateQueries(queryKeys.watches)
+            setWatchAlert(alertData)
+            setShowWatchNotification(true)
 
-          setTimeout(() => {
-            setShowOrderNotification(false)
-          }, 100000)
+            setTimeout(() => {
+              setShowWatchNotification(false)
+            }, 100000)
+          }
         }
 
       } catch (error) {
@@ -241,8 +322,8 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
 
   const handleViewProduct = () => {
     setShowNotification(false)
-    // Refresh the page to show the new product
-    window.location.href = `/buyer/product/${newProduct?.id}`
+    // Navigate to the product detail page
+    router.push(`/buyer/product/${newProduct?.id}`)
   }
 
   const connectionStatus = readyState
@@ -253,7 +334,16 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
   const handleViewOrder = () => {
     setShowOrderNotification(false)
     // Navigate to the order details page
-    window.location.href = `/buyer/orders/${updatedOrder?.id}`
+    router.push(`/buyer/orders/${updatedOrder?.id}`)
+  }
+
+  const handleCloseWatchNotification = () => {
+    setShowWatchNotification(false)
+  }
+
+  const handleViewWatchedProduct = () => {
+    setShowWatchNotification(false)
+    router.push(`/buyer/product/${watchAlert?.product_id}`)
   }
 
   return (
@@ -273,6 +363,13 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
               onView={handleViewOrder}
           />
       )}
+      {showWatchNotification && watchAlert && (
+        <WatchNotification
+          alert={watchAlert}
+          onClose={handleCloseWatchNotification}
+          onView={handleViewWatchedProduct}
+        />
+      )}
 
     </WebSocketContext.Provider>
   )
@@ -0,0 +1,111 @@
+"use client"
+
+import { api, ApiError, type Product, type ProductListParams } from "@/lib/api"
+import { useInfiniteQuery, useQuery } from "@/hooks/use-query"
+
+// Cache keys are nested so a mutation can invalidate e.g. every product list page at once
+export const queryKeys = {
+  products: ["products"] as const,
+  productList: (params: ProductListParams) => ["products", "list", params] as const,
+  productInfinite: (params: ProductListParams) => ["products", "infinite", params] as const,
+  product: (id: string) => ["products", "detail", id] as const,
+  productStock: (ids: string[]) => ["products", "stock", ids] as const,
+  orders: ["orders"] as const,
+  orderList: () => ["orders", "list"] as const,
+  order: (id: string) => ["orders", "detail", id] as const,
+  orderTemplates: ["orderTemplates"] as const,
+  orderTemplateList: () => ["orderTemplates", "list"] as const,
+  orderTemplate: (id: string) => ["orderTemplates", "detail", id] as const,
+  orderSchedules: ["orderSchedules"] as const,
+  orderScheduleList: () => ["orderSchedules", "list"] as const,
+  orderSchedule: (id: string) => ["orderSchedules", "detail", id] as const,
+  favorites: ["favorites"] as const,
+  watches: ["watches"] as const,
+  addresses: ["addresses"] as const,
+  categories: ["categories"] as const,
+}
+
+// Pass null to skip, e.g. while the infinite list is shown instead
+export function useProducts(params: ProductListParams | null) {
+  return useQuery(params ? queryKeys.productList(params) : null, (signal) => api.products.list(params!, signal), {
+    keepPreviousData: true,
+  })
+}
+
+// Every page loaded so far for the filters; `page` in params is ignored
+export function useInfiniteProducts(params: ProductListParams | null) {
+  return useInfiniteQuery(
+    params ? queryKeys.productInfinite(params) : null,
+    (page, signal) => api.products.list({ ...params, page }, signal),
+    {
+      keepPreviousData: true,
+      getNextPage: (lastPage) => (lastPage.page < lastPage.pages ? lastPage.page + 1 : undefined),
+    },
+  )
+}
+
+export function useProduct(id: string | undefined) {
+  return useQuery(id ? queryKeys.product(id) : null, (signal) => api.products.get(id!, signal))
+}
+
+// Current state of the given products; deleted products are left out
+export async function fetchProductsById(ids: string[], signal?: AbortSignal) {
+  const products = await Promise.all(
+    ids.map((id) =>
+      api.products.get(id, signal).catch((error) => {
+        if (error instanceof ApiError && error.status === 404) return null
+        throw error
+      }),
+    ),
+  )
+  return products.filter((product): product is Product => product !== null)
+}
+
+// Always refetched on mount, since it is used to check stock right before ordering
+export function useProductStock(ids: string[]) {
+  return useQuery(ids.length > 0 ? queryKeys.productStock(ids) : null, (signal) => fetchProductsById(ids, signal), {
+    staleTime: 0,
+  })
+}
+
+export function useOrders() {
+  return useQuery(queryKeys.orderList(), (signal) => api.orders.list(signal))
+}
+
+export function useOrder(id: string | undefined) {
+  return useQuery(id ? queryKeys.order(id) : null, (signal) => api.orders.get(id!, signal))
+}
+
+export function useOrderTemplates() {
+  return useQuery(queryKeys.orderTemplateList(), (signal) => api.orderTemplates.list(signal))
+}
+
+export function useOrderTemplate(id: string | undefined) {
+  return useQuery(id ? queryKeys.orderTemplate(id) : null, (signal) => api.orderTemplates.get(id!, signal))
+}
+
+export function useOrderSchedules() {
+  return useQuery(queryKeys.orderScheduleList(), (signal) => api.orderSchedules.list(signal))
+}
+
+export function useOrderSchedule(id: string | undefined) {
+  return useQuery(id ? queryKeys.orderSchedule(id) : null, (signal) => api.orderSchedules.get(id!, signal))
+}
+
+// Pass false to skip, e.g. when no buyer is signed in
+export function useFavorites(enabled = true) {
+  return useQuery(enabled ? queryKeys.favorites : null, (signal) => api.favorites.list(signal))
+}
+
+export function useWatches(enabled = true) {
+  return useQuery(enabled ? queryKeys.watches : null, (signal) => api.watches.list(signal))
+}
+
+export function useAddresses() {
+  return useQuery(queryKeys.addresses, (signal) => api.addresses.list(signal))
+}
+
+// The taxonomy rarely changes, so it is kept for longer than other queries
+export function useCategories() {
+  return useQuery(queryKeys.categories, (signal) => api.categories.list(signal), { staleTime: 5 * 60 * 1000 })
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef } from "react"
+
+// Calls back once the calls have stopped for `delay` ms; cancel() drops a pending call
+export function useDebouncedCallback<A extends unknown[]>(callback: (...args: A) => void, delay: number) {
+  const callbackRef = useRef(callback)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    callbackRef.current = callback
+  })
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => cancel, [cancel])
+
+  return useMemo(() => {
+    const debounced = (...args: A) => {
+      cancel()
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null
+        callbackRef.current(...args)
+      }, delay)
+    }
+    return Object.assign(debounced, { cancel })
+  }, [cancel, delay])
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState } from "react"
+import { useCart } from "@/components/cart-provider"
+import { useToast } from "@/hooks/use-toast"
+import { fetchProductsById } from "@/hooks/use-api"
+import { getErrorMessage, type OrderTemplate } from "@/lib/api"
+import { buildReorder } from "@/lib/reorder"
+
+// Adds a template's lines to the cart at today's stock; lines that can't be filled in full are cut down or skipped
+export function useLoadOrderTemplate() {
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { addItem } = useCart()
+
+  const loadTemplate = async (template: OrderTemplate) => {
+    setLoadingId(template.id)
+    try {
+      const productIds = Array.from(new Set(template.items.map((item) => item.product_id)))
+      const lines = buildReorder(template.items, await fetchProductsById(productIds))
+      let added = 0
+      let short = 0
+      lines.forEach((line) => {
+        const count = line.available > 0 ? addItem(line.product!, line.option!, line.available) : 0
+        added += count
+        if (count < line.item.quantity) short += 1
+      })
+
+      toast({
+        title: added > 0 ? "Template loaded" : "Nothing added",
+        description:
+          short > 0
+            ? `${added} items from "${template.name}"; ${short} line${short !== 1 ? "s" : ""} could not be added in full because of stock`
+            : `${added} items from "${template.name}" added to the cart`,
+        variant: added > 0 ? "default" : "destructive",
+      })
+      return added
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load template"),
+        variant: "destructive",
+      })
+      return 0
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  return { loadTemplate, loadingId }
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { queryKeys } from "@/hooks/use-api"
+import { invalidateQueries, setQueryData } from "@/hooks/use-query"
+import { api, getErrorMessage, type OrderSchedule } from "@/lib/api"
+import { formatRunDate } from "@/lib/order-schedules"
+
+// Pause, resume, skip and delete for the schedule list and detail pages
+export function useOrderScheduleActions() {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const run = async (schedule: OrderSchedule, action: () => Promise<OrderSchedule | void>, fallback: string) => {
+    setPendingId(schedule.id)
+    try {
+      const updated = await action()
+      if (updated) {
+        setQueryData(queryKeys.orderSchedule(updated.id), updated)
+      }
+      invalidateQueries(queryKeys.orderScheduleList())
+      return updated ?? null
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, fallback),
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const togglePause = async (schedule: OrderSchedule) => {
+    const status = schedule.status === "active" ? "paused" : "active"
+    const updated = await run(
+      schedule,
+      () => api.orderSchedules.updateStatus(schedule.id, status),
+      `Failed to ${status === "paused" ? "pause" : "resume"} schedule`,
+    )
+    if (updated) {
+      toast({
+        title: status === "paused" ? "Schedule paused" : "Schedule resumed",
+        description: updated.next_run_at
+          ? `Next order on ${formatRunDate(updated.next_run_at, updated.time_zone)}`
+          : `No orders will be placed from "${updated.template_name}" until it is resumed`,
+      })
+    }
+  }
+
+  const skipNext = async (schedule: OrderSchedule) => {
+    if (!schedule.next_run_at) return
+    const skipped = formatRunDate(schedule.next_run_at, schedule.time_zone)
+    const updated = await run(schedule, () => api.orderSchedules.skipNext(schedule.id), "Failed to skip run")
+    if (updated) {
+      toast({
+        title: "Run skipped",
+        description: updated.next_run_at
+          ? `Skipped ${skipped}; next order on ${formatRunDate(updated.next_run_at, updated.time_zone)}`
+          : `Skipped ${skipped}; the rule has no later runs`,
+      })
+    }
+  }
+
+  const remove = async (schedule: OrderSchedule) => {
+    if (!confirm(`Delete the schedule for "${schedule.template_name}"? Orders it already placed are kept.`)) return false
+    setPendingId(schedule.id)
+    try {
+      await api.orderSchedules.remove(schedule.id)
+      invalidateQueries(queryKeys.orderScheduleList())
+      toast({
+        title: "Success",
+        description: "Schedule deleted",
+      })
+      return true
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete schedule"),
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return { togglePause, skipNext, remove, pendingId }
+}
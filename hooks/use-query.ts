@@ -0,0 +1,251 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react"
+
+export type QueryKey = readonly unknown[]
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>
+
+interface QueryState {
+  data?: unknown
+  error?: unknown
+  // When data was last fetched successfully; 0 marks the entry as stale
+  updatedAt: number
+  isFetching: boolean
+}
+
+interface CacheEntry {
+  key: QueryKey
+  state: QueryState
+  fetcher?: Fetcher<unknown>
+  promise?: Promise<void>
+  controller?: AbortController
+  listeners: Set<() => void>
+}
+
+// Shared by every component, so navigating back to a page renders its last data straight away
+const cache = new Map<string, CacheEntry>()
+
+const EMPTY_STATE: QueryState = { updatedAt: 0, isFetching: false }
+
+const DEFAULT_STALE_TIME = 30 * 1000
+
+function hashKey(key: QueryKey) {
+  return JSON.stringify(key)
+}
+
+function getEntry(key: QueryKey) {
+  const hash = hashKey(key)
+  let entry = cache.get(hash)
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() }
+    cache.set(hash, entry)
+  }
+  return entry
+}
+
+function setState(entry: CacheEntry, patch: Partial<QueryState>) {
+  entry.state = { ...entry.state, ...patch }
+  entry.listeners.forEach((listener) => listener())
+}
+
+// Starts a fetch for the entry, or joins the one already in flight; `fetcher` overrides the entry's own for this one fetch
+function fetchEntry(entry: CacheEntry, fetcher = entry.fetcher) {
+  if (entry.promise || !fetcher) {
+    return entry.promise
+  }
+
+  const controller = new AbortController()
+  entry.controller = controller
+  setState(entry, { isFetching: true })
+
+  entry.promise = fetcher(controller.signal)
+    .then(
+      (data) => {
+        if (!controller.signal.aborted) {
+          setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false })
+        }
+      },
+      (error) => {
+        if (!controller.signal.aborted) {
+          setState(entry, { error, isFetching: false })
+        }
+      },
+    )
+    .finally(() => {
+      if (entry.controller === controller) {
+        entry.promise = undefined
+        entry.controller = undefined
+      }
+    })
+
+  return entry.promise
+}
+
+function abortEntry(entry: CacheEntry) {
+  entry.controller?.abort()
+  entry.promise = undefined
+  entry.controller = undefined
+  entry.state = { ...entry.state, isFetching: false }
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]))
+}
+
+// Mark every query under the prefix as stale and refetch the ones currently on screen
+export function invalidateQueries(prefix: QueryKey) {
+  cache.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return
+    entry.state = { ...entry.state, updatedAt: 0 }
+    if (entry.listeners.size > 0) {
+      abortEntry(entry)
+      fetchEntry(entry)
+    }
+  })
+}
+
+export function setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+  const entry = getEntry(key)
+  const data =
+    typeof updater === "function" ? (updater as (previous: T | undefined) => T)(entry.state.data as T) : updater
+  setState(entry, { data, error: undefined, updatedAt: Date.now() })
+}
+
+export function getQueryData<T>(key: QueryKey) {
+  return cache.get(hashKey(key))?.state.data as T | undefined
+}
+
+// Drop everything, e.g. when the user logs out so the next account starts clean.
+// Entries still on screen are emptied in place, so their hooks stay subscribed to the entry the cache holds.
+export function clearQueryCache() {
+  cache.forEach((entry, hash) => {
+    abortEntry(entry)
+    if (entry.listeners.size > 0) {
+      setState(entry, { ...EMPTY_STATE })
+    } else {
+      cache.delete(hash)
+    }
+  })
+}
+
+interface UseQueryOptions {
+  // How long fetched data counts as fresh before it is revalidated in the background
+  staleTime?: number
+  // Keep showing the last key's data while the next key loads, e.g. when paging
+  keepPreviousData?: boolean
+}
+
+// Stale-while-revalidate data fetching; pass a null key to skip fetching
+export function useQuery<T>(key: QueryKey | null, fetcher: Fetcher<T>, options: UseQueryOptions = {}) {
+  const { staleTime = DEFAULT_STALE_TIME, keepPreviousData = false } = options
+  const hash = key ? hashKey(key) : null
+  const keyRef = useRef(key)
+  keyRef.current = key
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (!keyRef.current) {
+        return () => {}
+      }
+      const entry = getEntry(keyRef.current)
+      entry.listeners.add(listener)
+      return () => {
+        entry.listeners.delete(listener)
+        // Nobody is waiting for the response any more
+        if (entry.listeners.size === 0 && entry.promise) {
+          abortEntry(entry)
+        }
+      }
+    },
+    [hash],
+  )
+  const getSnapshot = useCallback(() => (hash ? (cache.get(hash)?.state ?? EMPTY_STATE) : EMPTY_STATE), [hash])
+  const state = useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_STATE)
+
+  useEffect(() => {
+    if (!keyRef.current) return
+    const entry = getEntry(keyRef.current)
+    entry.fetcher = (signal) => fetcherRef.current(signal)
+    if (Date.now() - entry.state.updatedAt > staleTime) {
+      fetchEntry(entry)
+    }
+  }, [hash, staleTime])
+
+  const previousData = useRef<T | undefined>(undefined)
+  if (state.data !== undefined) {
+    previousData.current = state.data as T
+  }
+  const data = (state.data as T | undefined) ?? (keepPreviousData ? previousData.current : undefined)
+
+  const refetch = useCallback(() => {
+    if (!keyRef.current) return Promise.resolve()
+    const entry = getEntry(keyRef.current)
+    abortEntry(entry)
+    return fetchEntry(entry)
+  }, [])
+
+  return {
+    data,
+    error: state.error,
+    isLoading: data === undefined && state.error === undefined && hash !== null,
+    isFetching: state.isFetching,
+    isPreviousData: state.data === undefined && data !== undefined,
+    refetch,
+  }
+}
+
+export interface InfiniteData<T> {
+  pages: T[]
+}
+
+interface UseInfiniteQueryOptions<T> extends UseQueryOptions {
+  // The page after the last one loaded, or undefined when there are no more
+  getNextPage: (lastPage: T) => number | undefined
+}
+
+// Pages loaded one after another into a single cache entry, e.g. for infinite scrolling.
+// Refetching starts over from the first page rather than reloading every page seen so far.
+export function useInfiniteQuery<T>(
+  key: QueryKey | null,
+  fetchPage: (page: number, signal: AbortSignal) => Promise<T>,
+  options: UseInfiniteQueryOptions<T>,
+) {
+  const { getNextPage, ...queryOptions } = options
+  const fetchPageRef = useRef(fetchPage)
+  fetchPageRef.current = fetchPage
+  const query = useQuery<InfiniteData<T>>(
+    key,
+    async (signal) => ({ pages: [await fetchPageRef.current(1, signal)] }),
+    queryOptions,
+  )
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false)
+  const hash = key ? hashKey(key) : null
+
+  const pages = query.data?.pages ?? []
+  const nextPage = pages.length > 0 ? getNextPage(pages[pages.length - 1]) : undefined
+
+  const fetchNextPage = useCallback(async () => {
+    if (!key || nextPage === undefined || query.isPreviousData) return
+    const entry = getEntry(key)
+    if (entry.promise) return
+    const loaded = (entry.state.data as InfiniteData<T> | undefined)?.pages ?? []
+    setIsFetchingNextPage(true)
+    try {
+      await fetchEntry(entry, async (signal) => ({
+        pages: [...loaded, await fetchPageRef.current(nextPage, signal)],
+      }))
+    } finally {
+      setIsFetchingNextPage(false)
+    }
+  }, [hash, nextPage, query.isPreviousData])
+
+  return {
+    ...query,
+    hasNextPage: nextPage !== undefined,
+    isFetchingNextPage,
+    fetchNextPage,
+  }
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSession } from "@/components/session-provider"
+
+// A small UI setting kept in localStorage per user, like the cart; stored values that are no longer allowed fall back to the default
+export function useUserPreference<T extends string>(name: string, defaultValue: T, allowed: readonly T[]) {
+  const { session } = useSession()
+  const key = session ? `${name}:${session.username}` : null
+  const [value, setValue] = useState<T>(defaultValue)
+
+  useEffect(() => {
+    if (!key) return
+    const stored = localStorage.getItem(key)
+    setValue(allowed.find((candidate) => candidate === stored) ?? defaultValue)
+  }, [key])
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next)
+      if (key) {
+        localStorage.setItem(key, next)
+      }
+    },
+    [key],
+  )
+
+  return [value, update] as const
+}
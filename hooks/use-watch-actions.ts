@@ -0,0 +1,46 @@
+"use client"
+
+import { useState } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { queryKeys } from "@/hooks/use-api"
+import { setQueryData } from "@/hooks/use-query"
+import { api, getErrorMessage, type Watch, type WatchInput } from "@/lib/api"
+
+// Turns an option's alerts on and off; with both off the watch is removed
+export function useWatchActions() {
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const saveWatch = async (optionId: string, input: WatchInput) => {
+    setPendingId(optionId)
+    try {
+      if (input.price_drop || input.back_in_stock) {
+        const saved = await api.watches.save(optionId, input)
+        setQueryData<Watch[]>(queryKeys.watches, (previous = []) =>
+          previous.some((watch) => watch.product_option_id === optionId)
+            ? previous.map((watch) => (watch.product_option_id === optionId ? saved : watch))
+            : [saved, ...previous],
+        )
+      } else {
+        await api.watches.remove(optionId)
+        setQueryData<Watch[]>(queryKeys.watches, (previous = []) =>
+          previous.filter((watch) => watch.product_option_id !== optionId),
+        )
+      }
+      return true
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update alerts"),
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const removeWatch = (optionId: string) => saveWatch(optionId, { price_drop: false, back_in_stock: false })
+
+  return { saveWatch, removeWatch, pendingId }
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+interface WindowVirtualizerOptions {
+  count: number
+  // Row height used until a rendered row has been measured
+  estimateSize: number
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number
+}
+
+// Renders only the rows near the viewport of a list that scrolls with the page. Rows are assumed to share one
+// height, taken from the tallest rendered row, and the rows outside the range are stood in for by padding.
+export function useWindowVirtualizer<E extends HTMLElement = HTMLDivElement>({
+  count,
+  estimateSize,
+  overscan = 3,
+}: WindowVirtualizerOptions) {
+  const containerRef = useRef<E>(null)
+  const [rowSize, setRowSize] = useState<number | null>(null)
+  const [range, setRange] = useState({ start: 0, end: 0 })
+  const size = rowSize ?? estimateSize
+
+  const observerRef = useRef<ResizeObserver | null>(null)
+  if (!observerRef.current && typeof ResizeObserver !== "undefined") {
+    observerRef.current = new ResizeObserver((entries) => {
+      const tallest = Math.max(...entries.map((entry) => entry.borderBoxSize[0]?.blockSize ?? entry.contentRect.height))
+      if (tallest > 0) {
+        setRowSize((current) => (current === null ? tallest : Math.max(current, tallest)))
+      }
+    })
+  }
+
+  useEffect(() => () => observerRef.current?.disconnect(), [])
+
+  // Attach to each rendered row so the row height follows the content
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+    observerRef.current?.observe(element)
+    return () => observerRef.current?.unobserve(element)
+  }, [])
+
+  useEffect(() => {
+    const update = () => {
+      const container = containerRef.current
+      if (!container) return
+      const offset = Math.max(0, -container.getBoundingClientRect().top)
+      const first = Math.floor(offset / size)
+      const visible = Math.ceil(window.innerHeight / size)
+      const start = Math.max(0, Math.min(count, first - overscan))
+      const end = Math.min(count, first + visible + overscan)
+      setRange((current) => (current.start === start && current.end === end ? current : { start, end }))
+    }
+    update()
+    window.addEventListener("scroll", update, { passive: true })
+    window.addEventListener("resize", update)
+    return () => {
+      window.removeEventListener("scroll", update)
+      window.removeEventListener("resize", update)
+    }
+  }, [count, size, overscan])
+
+  return {
+    containerRef,
+    measureRow,
+    start: range.start,
+    end: range.end,
+    paddingTop: range.start * size,
+    paddingBottom: (count - range.end) * size,
+  }
+}
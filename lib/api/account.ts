@@ -0,0 +1,26 @@
+import { request } from "./client"
+import { backupCodesSchema, twoFactorSetupSchema, twoFactorStatusSchema } from "./schemas"
+
+export const account = {
+  forgotPassword: (email: string) => request<unknown>("/password/forgot", { method: "POST", body: { email } }),
+
+  resetPassword: (token: string, password: string) =>
+    request<unknown>("/password/reset", { method: "POST", body: { token, password } }),
+
+  changePassword: (currentPassword: string, newPassword: string) =>
+    request<unknown>("/password/change", {
+      method: "POST",
+      body: { current_password: currentPassword, new_password: newPassword },
+    }),
+
+  twoFactor: {
+    status: () => request("/2fa", { schema: twoFactorStatusSchema }),
+
+    setup: () => request("/2fa/setup", { method: "POST", schema: twoFactorSetupSchema }),
+
+    enable: (code: string) => request("/2fa/enable", { method: "POST", body: { code }, schema: backupCodesSchema }),
+
+    regenerateBackupCodes: (code: string) =>
+      request("/2fa/backup-codes", { method: "POST", body: { code }, schema: backupCodesSchema }),
+  },
+}
@@ -0,0 +1,6 @@
+import { request } from "./client"
+import { deliveryAddressListSchema } from "./schemas"
+
+export const addresses = {
+  list: (signal?: AbortSignal) => request("/address", { signal, schema: deliveryAddressListSchema }),
+}
@@ -0,0 +1,50 @@
+import type { z } from "zod"
+import type { Session } from "@/lib/auth"
+import { AUTH_BASE_URL, request } from "./client"
+import { authResultSchema, sessionStateSchema, twoFactorChallengeSchema } from "./schemas"
+
+export type AuthResult = z.infer<typeof authResultSchema>
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>
+
+export interface RegisterInput {
+  role: Session["role"]
+  username: string
+  email: string
+  password: string
+  company: {
+    name: string
+    address: string
+    phone?: string
+  }
+}
+
+const options = { baseUrl: AUTH_BASE_URL }
+
+// Talks to the Next auth route handlers, which keep the token in an HttpOnly cookie
+export const auth = {
+  login: (username: string, password: string) =>
+    request("/login", {
+      ...options,
+      method: "POST",
+      body: { username, password },
+      schema: twoFactorChallengeSchema.or(authResultSchema),
+    }),
+
+  verifyTwoFactor: (challengeToken: string, code: string) =>
+    request("/2fa", {
+      ...options,
+      method: "POST",
+      body: { challenge_token: challengeToken, code },
+      schema: authResultSchema,
+    }),
+
+  register: (input: RegisterInput) =>
+    request("/register", { ...options, method: "POST", body: input, schema: authResultSchema }),
+
+  session: () => request("/session", { ...options, schema: sessionStateSchema }),
+
+  refresh: () => request("/refresh", { ...options, method: "POST", schema: authResultSchema.pick({ session: true }) }),
+
+  logout: () => request<unknown>("/logout", { ...options, method: "POST" }),
+}
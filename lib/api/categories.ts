@@ -0,0 +1,6 @@
+import { request } from "./client"
+import { categoryListSchema } from "./schemas"
+
+export const categories = {
+  list: (signal?: AbortSignal) => request("/category", { signal, schema: categoryListSchema }),
+}
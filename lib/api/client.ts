@@ -0,0 +1,129 @@
+import type { z } from "zod"
+
+// Same-origin by default: the Next proxy attaches the bearer token from the session cookie
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "/api/v1"
+
+export const AUTH_BASE_URL = "/api/auth"
+
+export class ApiError extends Error {
+  status: number
+  data: any
+
+  constructor(message: string, status: number, data?: any) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.data = data
+  }
+}
+
+// The response arrived but does not match the shape the UI was built against
+export class ResponseValidationError extends Error {
+  path: string
+  issues: z.ZodIssue[]
+
+  constructor(path: string, issues: z.ZodIssue[]) {
+    const [first] = issues
+    const location = first?.path.length ? `${first.path.join(".")}: ` : ""
+    super(`Unexpected response from ${path} (${location}${first?.message ?? "invalid data"})`)
+    this.name = "ResponseValidationError"
+    this.path = path
+    this.issues = issues
+  }
+}
+
+type QueryValue = string | number | boolean | undefined | null
+
+export interface RequestOptions<T = unknown> {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+  query?: Record<string, QueryValue | QueryValue[]>
+  body?: unknown
+  signal?: AbortSignal
+  baseUrl?: string
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+}
+
+let unauthorizedHandler: (() => void) | null = null
+
+// Lets the session provider react to a 401 from any API call
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler
+}
+
+function buildQuery(query: RequestOptions["query"]) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query || {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null && item !== "") {
+        params.append(key, String(item))
+      }
+    }
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ""
+}
+
+export async function request<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const { method = "GET", query, body, signal, baseUrl = API_BASE_URL, schema } = options
+
+  let response: Response
+  try {
+    response = await fetch(`${baseUrl}${path}${buildQuery(query)}`, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      credentials: "same-origin",
+      signal,
+    })
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error
+    }
+    throw new ApiError("Failed to connect to server", 0)
+  }
+
+  const text = await response.text()
+  let data: any = null
+  try {
+    data = text ? JSON.parse(text) : null
+  } catch (error) {
+    data = text
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 && baseUrl === API_BASE_URL) {
+      unauthorizedHandler?.()
+    }
+    throw new ApiError(data?.message || `Request failed with status ${response.status}`, response.status, data)
+  }
+
+  if (!schema) {
+    return data as T
+  }
+
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    console.error(`Response from ${path} failed validation:`, result.error.issues, data)
+    throw new ResponseValidationError(path, result.error.issues)
+  }
+  return result.data
+}
+
+// Message to show the user: the server's own message when it sent one, the fallback otherwise
+export function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof ApiError) {
+    if (error.status === 0) return error.message
+    if (error.data?.message) return error.data.message as string
+  }
+  if (error instanceof ResponseValidationError) {
+    return error.message
+  }
+  return fallback
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError"
+}
@@ -0,0 +1,7 @@
+import { request } from "./client"
+import { socketTicketSchema } from "./schemas"
+
+// The WebSocket goes straight to the backend without the session cookie, so it identifies the buyer with a ticket
+export const events = {
+  ticket: () => request("/ws-ticket", { method: "POST", schema: socketTicketSchema }),
+}
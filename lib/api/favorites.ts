@@ -0,0 +1,10 @@
+import { request } from "./client"
+import { favoriteListSchema, favoriteSchema } from "./schemas"
+
+export const favorites = {
+  list: (signal?: AbortSignal) => request("/favorite", { signal, schema: favoriteListSchema }),
+
+  add: (productId: string) => request(`/favorite/${productId}`, { method: "PUT", schema: favoriteSchema }),
+
+  remove: (productId: string) => request<void>(`/favorite/${productId}`, { method: "DELETE" }),
+}
@@ -0,0 +1,30 @@
+import { account } from "./account"
+import { addresses } from "./addresses"
+import { auth } from "./auth"
+import { categories } from "./categories"
+import { events } from "./events"
+import { favorites } from "./favorites"
+import { orders } from "./orders"
+import { orderSchedules } from "./order-schedules"
+import { orderTemplates } from "./order-templates"
+import { products } from "./products"
+import { watches } from "./watches"
+
+export const api = {
+  account,
+  addresses,
+  auth,
+  categories,
+  events,
+  favorites,
+  orders,
+  orderSchedules,
+  orderTemplates,
+  products,
+  watches,
+}
+
+export { ApiError, ResponseValidationError, getErrorMessage, isAbortError, setUnauthorizedHandler } from "./client"
+export * from "./schemas"
+export type { AuthResult, RegisterInput, TwoFactorChallenge } from "./auth"
+export type * from "./types"
@@ -0,0 +1,24 @@
+import { request } from "./client"
+import { orderScheduleListSchema, orderScheduleSchema } from "./schemas"
+import type { OrderSchedule, OrderScheduleInput } from "./types"
+
+export const orderSchedules = {
+  list: (signal?: AbortSignal) => request("/order-schedule", { signal, schema: orderScheduleListSchema }),
+
+  get: (id: string, signal?: AbortSignal) => request(`/order-schedule/${id}`, { signal, schema: orderScheduleSchema }),
+
+  create: (input: OrderScheduleInput) =>
+    request("/order-schedule", { method: "POST", body: input, schema: orderScheduleSchema }),
+
+  update: (id: string, input: OrderScheduleInput) =>
+    request(`/order-schedule/${id}`, { method: "PUT", body: input, schema: orderScheduleSchema }),
+
+  // Pausing clears the next run; resuming picks the rule up again from now
+  updateStatus: (id: string, status: OrderSchedule["status"]) =>
+    request(`/order-schedule/${id}/status`, { method: "PATCH", body: { status }, schema: orderScheduleSchema }),
+
+  // Records the upcoming run as skipped and moves on to the one after
+  skipNext: (id: string) => request(`/order-schedule/${id}/skip`, { method: "POST", schema: orderScheduleSchema }),
+
+  remove: (id: string) => request<void>(`/order-schedule/${id}`, { method: "DELETE" }),
+}
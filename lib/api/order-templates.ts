@@ -0,0 +1,17 @@
+import { request } from "./client"
+import { orderTemplateListSchema, orderTemplateSchema } from "./schemas"
+import type { OrderTemplateInput } from "./types"
+
+export const orderTemplates = {
+  list: (signal?: AbortSignal) => request("/order-template", { signal, schema: orderTemplateListSchema }),
+
+  get: (id: string, signal?: AbortSignal) => request(`/order-template/${id}`, { signal, schema: orderTemplateSchema }),
+
+  create: (input: OrderTemplateInput) =>
+    request("/order-template", { method: "POST", body: input, schema: orderTemplateSchema }),
+
+  update: (id: string, input: OrderTemplateInput) =>
+    request(`/order-template/${id}`, { method: "PUT", body: input, schema: orderTemplateSchema }),
+
+  remove: (id: string) => request<void>(`/order-template/${id}`, { method: "DELETE" }),
+}
@@ -0,0 +1,15 @@
+import { request } from "./client"
+import { purchaseOrderCreatedSchema, purchaseOrderListSchema, purchaseOrderSchema } from "./schemas"
+import type { PurchaseOrderInput } from "./types"
+
+export const orders = {
+  list: (signal?: AbortSignal) => request("/purchase-order", { signal, schema: purchaseOrderListSchema }),
+
+  get: (id: string, signal?: AbortSignal) => request(`/purchase-order/${id}`, { signal, schema: purchaseOrderSchema }),
+
+  create: (input: PurchaseOrderInput) =>
+    request("/purchase-order", { method: "POST", body: input, schema: purchaseOrderCreatedSchema }),
+
+  updateStatus: (id: string, status: string) =>
+    request<unknown>(`/purchase-order/${id}/status`, { method: "PATCH", body: { status } }),
+}
@@ -0,0 +1,20 @@
+import { request } from "./client"
+import { productDetailResponseSchema, productListSchema, productsResponseSchema } from "./schemas"
+import type { ProductInput, ProductListParams } from "./types"
+
+export const products = {
+  list: (params: ProductListParams = {}, signal?: AbortSignal) =>
+    request("/product", { query: { ...params }, signal, schema: productsResponseSchema }),
+
+  get: (id: string, signal?: AbortSignal) => request(`/product/${id}`, { signal, schema: productDetailResponseSchema }),
+
+  // Products having an option with one of the codes; codes match case-insensitively
+  findByOptionCodes: (codes: string[], signal?: AbortSignal) =>
+    request("/product/options", { query: { codes }, signal, schema: productListSchema }),
+
+  create: (input: ProductInput) => request<unknown>("/product", { method: "POST", body: input }),
+
+  update: (id: string, input: ProductInput) => request<unknown>(`/product/${id}`, { method: "PUT", body: input }),
+
+  remove: (id: string) => request<void>(`/product/${id}`, { method: "DELETE" }),
+}
@@ -0,0 +1,254 @@
+import { z } from "zod"
+
+// Lists the backend sometimes sends as null are treated as empty
+const list = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .array(item)
+    .nullish()
+    .transform((items) => items ?? [])
+
+export const productOptionSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  name: z.string(),
+  price: z.number(),
+  quantity: z.number(),
+})
+
+// Categories come as a flat list; parent_id links them into a tree
+export const categorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parent_id: z.string().nullish(),
+})
+
+export const categoryListSchema = list(categorySchema)
+
+export const productSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  name: z.string(),
+  img: z
+    .string()
+    .nullish()
+    .transform((img) => img ?? ""),
+  supplier_id: z.string().nullish(),
+  supplier_name: z.string().nullish(),
+  category_id: z.string().nullish(),
+  options: list(productOptionSchema),
+})
+
+export const facetValueSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  count: z.number(),
+})
+
+// Each facet is counted with every filter applied except its own, so the counts show what picking a value would give
+export const productFacetsSchema = z.object({
+  price: z.object({ min: z.number(), max: z.number() }).nullish(),
+  in_stock: z.number(),
+  suppliers: list(facetValueSchema),
+  options: list(facetValueSchema),
+})
+
+export const productsResponseSchema = z.object({
+  items: list(productSchema),
+  limit: z.number(),
+  page: z.number(),
+  pages: z.number(),
+  total: z.number(),
+  facets: productFacetsSchema.nullish(),
+})
+
+export const productListSchema = list(productSchema)
+
+// GET /product/:id wraps the product in { data }, other endpoints return it bare
+export const productDetailResponseSchema = z.union([
+  z.object({ data: productSchema }).transform((response) => response.data),
+  productSchema,
+])
+
+export const purchaseOrderItemSchema = z.object({
+  id: z.string(),
+  product_id: z.string(),
+  product_option_id: z.string(),
+  product_name: z.string(),
+  product_option_name: z.string(),
+  unit_price: z.number(),
+  total_price: z.number(),
+  quantity: z.number(),
+  currency: z.string(),
+})
+
+export const purchaseOrderSummarySchema = z.object({
+  id: z.string(),
+  order_number: z.string(),
+  status: z.string(),
+  order_date: z.string(),
+  total_amount: z.number(),
+  currency: z.string(),
+  supplier_name: z.string().nullish(),
+  // Set when the order was placed automatically by a recurring schedule
+  schedule_id: z.string().nullish(),
+  created_at: z.string().optional(),
+})
+
+export const deliveryAddressSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  recipient: z.string(),
+  postal_code: z.string(),
+  address: z.string(),
+  phone: z.string().nullish(),
+  is_default: z.boolean().optional(),
+})
+
+export const deliveryAddressListSchema = list(deliveryAddressSchema)
+
+export const purchaseOrderSchema = purchaseOrderSummarySchema.extend({
+  notes: z.string().nullish(),
+  // Date only, YYYY-MM-DD
+  requested_delivery_date: z.string().nullish(),
+  // Copied onto the order when it is placed, so later edits to the address book don't change it
+  delivery_address: deliveryAddressSchema.omit({ id: true, is_default: true }).nullish(),
+  items: list(purchaseOrderItemSchema),
+})
+
+export const purchaseOrderCreatedSchema = z.object({ id: z.string() })
+
+export const purchaseOrderListSchema = list(purchaseOrderSummarySchema)
+
+// Names are copied in when the template is saved, so lines still read well after a product is removed
+export const orderTemplateItemSchema = z.object({
+  product_id: z.string(),
+  product_option_id: z.string(),
+  product_name: z.string(),
+  product_option_name: z.string(),
+  quantity: z.number(),
+})
+
+export const orderTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  items: list(orderTemplateItemSchema),
+})
+
+export const orderTemplateListSchema = list(orderTemplateSchema)
+
+export const orderScheduleRunSchema = z.object({
+  id: z.string(),
+  run_at: z.string(),
+  // partial: some lines were short on stock; skipped: the buyer skipped this run
+  status: z.enum(["placed", "partial", "failed", "skipped"]),
+  orders: list(
+    purchaseOrderSummarySchema.pick({
+      id: true,
+      order_number: true,
+      supplier_name: true,
+      total_amount: true,
+      currency: true,
+    }),
+  ),
+  message: z.string().nullish(),
+})
+
+// Places the template's lines as purchase orders each time the cron rule fires
+export const orderScheduleSchema = z.object({
+  id: z.string(),
+  template_id: z.string(),
+  template_name: z.string(),
+  // How the rule was built in the form; the backend only looks at cron
+  frequency: z.enum(["weekly", "monthly", "custom"]),
+  cron: z.string(),
+  // IANA time zone the rule is read in, e.g. Asia/Tokyo; the buyer's when the schedule was saved
+  time_zone: z.string(),
+  status: z.enum(["active", "paused"]),
+  // Null while paused, or when the rule will never fire again
+  next_run_at: z.string().nullish(),
+  created_at: z.string(),
+  // Newest first
+  runs: list(orderScheduleRunSchema),
+})
+
+export const orderScheduleListSchema = list(orderScheduleSchema)
+
+// product is null once the supplier has removed it
+export const favoriteSchema = z.object({
+  product_id: z.string(),
+  created_at: z.string(),
+  product: productSchema.nullish(),
+})
+
+export const favoriteListSchema = list(favoriteSchema)
+
+// Which alerts a buyer wants for one product option; option is its current state, null once removed
+export const watchSchema = z.object({
+  product_id: z.string(),
+  product_option_id: z.string(),
+  product_name: z.string().nullish(),
+  price_drop: z.boolean(),
+  back_in_stock: z.boolean(),
+  created_at: z.string(),
+  option: productOptionSchema.nullish(),
+})
+
+export const watchListSchema = list(watchSchema)
+
+const watchEventSchema = z.object({
+  product_id: z.string(),
+  product_name: z.string(),
+  product_option_id: z.string(),
+  product_option_name: z.string(),
+})
+
+// Payload of the price_dropped WebSocket event, sent for watched options
+export const priceDroppedEventSchema = watchEventSchema.extend({
+  old_price: z.number(),
+  new_price: z.number(),
+})
+
+// Payload of the back_in_stock WebSocket event, sent for watched options
+export const backInStockEventSchema = watchEventSchema.extend({
+  quantity: z.number(),
+})
+
+// Payload of the order_updated WebSocket event
+export const orderUpdatedEventSchema = purchaseOrderSummarySchema.pick({ id: true, order_number: true, status: true })
+
+// One-time ticket the WebSocket connection is opened with
+export const socketTicketSchema = z.object({
+  ticket: z.string(),
+})
+
+export const sessionSchema = z.object({
+  role: z.enum(["buyer", "supplier"]),
+  username: z.string(),
+  expiresAt: z.number().nullable(),
+  twoFactorSetupRequired: z.boolean(),
+})
+
+export const authResultSchema = z.object({
+  session: sessionSchema,
+})
+
+export const twoFactorChallengeSchema = z.object({
+  status: z.literal("2fa_required"),
+  challenge_token: z.string(),
+})
+
+export const sessionStateSchema = z.object({
+  session: sessionSchema.nullable(),
+  expired: z.boolean(),
+})
+
+export const twoFactorStatusSchema = z.object({ enabled: z.boolean() })
+
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauth_url: z.string(),
+})
+
+export const backupCodesSchema = z.object({ backup_codes: z.array(z.string()) })
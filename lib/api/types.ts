@@ -0,0 +1,98 @@
+import type { z } from "zod"
+import type {
+  categorySchema,
+  deliveryAddressSchema,
+  facetValueSchema,
+  favoriteSchema,
+  orderScheduleRunSchema,
+  orderScheduleSchema,
+  orderTemplateItemSchema,
+  orderTemplateSchema,
+  productFacetsSchema,
+  productOptionSchema,
+  productSchema,
+  productsResponseSchema,
+  purchaseOrderItemSchema,
+  purchaseOrderSchema,
+  purchaseOrderSummarySchema,
+  twoFactorSetupSchema,
+  watchSchema,
+} from "./schemas"
+
+export type ProductOption = z.infer<typeof productOptionSchema>
+export type Product = z.infer<typeof productSchema>
+export type ProductsResponse = z.infer<typeof productsResponseSchema>
+export type FacetValue = z.infer<typeof facetValueSchema>
+export type ProductFacets = z.infer<typeof productFacetsSchema>
+export type PurchaseOrderItem = z.infer<typeof purchaseOrderItemSchema>
+export type PurchaseOrderSummary = z.infer<typeof purchaseOrderSummarySchema>
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>
+export type DeliveryAddress = z.infer<typeof deliveryAddressSchema>
+export type Category = z.infer<typeof categorySchema>
+export type OrderTemplateItem = z.infer<typeof orderTemplateItemSchema>
+export type OrderTemplate = z.infer<typeof orderTemplateSchema>
+export type Favorite = z.infer<typeof favoriteSchema>
+export type Watch = z.infer<typeof watchSchema>
+export type OrderScheduleRun = z.infer<typeof orderScheduleRunSchema>
+export type OrderSchedule = z.infer<typeof orderScheduleSchema>
+
+export interface ProductListParams {
+  page?: number
+  limit?: number
+  search?: string
+  // Category id; products in its subcategories match too
+  category?: string
+  // Facet filters; a product matches when one of its options passes all of them
+  minPrice?: number
+  maxPrice?: number
+  inStock?: boolean
+  suppliers?: string[]
+  options?: string[]
+  sortBy?: string
+  sortOrder?: "asc" | "desc"
+}
+
+export interface ProductInput {
+  id?: string
+  code: string
+  name: string
+  img: string
+  category_id?: string | null
+  options: ProductOption[]
+}
+
+export interface PurchaseOrderInput {
+  items: Array<{
+    product_id: string
+    product_option_id: string
+    quantity: number
+    currency: string
+  }>
+  notes?: string
+  requested_delivery_date?: string
+  delivery_address_id?: string
+}
+
+export interface OrderTemplateInput {
+  name: string
+  items: Array<{
+    product_id: string
+    product_option_id: string
+    quantity: number
+  }>
+}
+
+export interface OrderScheduleInput {
+  template_id: string
+  frequency: OrderSchedule["frequency"]
+  cron: string
+  time_zone: string
+}
+
+// At least one alert must be on; turning both off means removing the watch
+export interface WatchInput {
+  price_drop: boolean
+  back_in_stock: boolean
+}
+
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>
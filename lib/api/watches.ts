@@ -0,0 +1,13 @@
+import { request } from "./client"
+import { watchListSchema, watchSchema } from "./schemas"
+import type { WatchInput } from "./types"
+
+export const watches = {
+  list: (signal?: AbortSignal) => request("/watch", { signal, schema: watchListSchema }),
+
+  // Creates the watch or replaces its alerts
+  save: (optionId: string, input: WatchInput) =>
+    request(`/watch/${optionId}`, { method: "PUT", body: input, schema: watchSchema }),
+
+  remove: (optionId: string) => request<void>(`/watch/${optionId}`, { method: "DELETE" }),
+}
@@ -0,0 +1,77 @@
+export type UserRole = "buyer" | "supplier"
+
+// What the browser knows about the logged-in user; the token itself stays in an HttpOnly cookie
+export interface Session {
+  role: UserRole
+  username: string
+  // Expiry of the token in epoch milliseconds, null when the token carries no exp claim
+  expiresAt: number | null
+  // From the token's two_factor_setup_required claim: suppliers must enrol in 2FA before using the supplier area
+  twoFactorSetupRequired: boolean
+}
+
+export const TWO_FACTOR_SETUP_PATH = "/supplier/security"
+
+// JWT segments are base64url without padding, and the JSON inside is UTF-8
+function decodeBase64Url(segment: string) {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(segment.length / 4) * 4, "=")
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+// Decode the payload of a JWT without verifying it; the backend does that on every request
+export function decodeToken(token: string): Record<string, any> | null {
+  try {
+    return JSON.parse(decodeBase64Url(token.split(".")[1]))
+  } catch (error) {
+    return null
+  }
+}
+
+export function sessionFromToken(token: string): Session | null {
+  const payload = decodeToken(token)
+  if (!payload || (payload.role !== "buyer" && payload.role !== "supplier")) {
+    return null
+  }
+
+  return {
+    role: payload.role,
+    username: payload.username || payload.name || "",
+    expiresAt: typeof payload.exp === "number" ? payload.exp * 1000 : null,
+    twoFactorSetupRequired: payload.role === "supplier" && payload.two_factor_setup_required === true,
+  }
+}
+
+export function isSessionExpired(session: Session, now = Date.now()) {
+  return session.expiresAt !== null && session.expiresAt <= now
+}
+
+export function homePathForRole(role: UserRole) {
+  return role === "supplier" ? "/supplier/products" : "/buyer/marketplace"
+}
+
+export function loginPath(options: { returnUrl?: string; expired?: boolean } = {}) {
+  const params = new URLSearchParams()
+  if (options.expired) params.set("expired", "1")
+  if (options.returnUrl) params.set("returnUrl", options.returnUrl)
+  const query = params.toString()
+  return query ? `/?${query}` : "/"
+}
+
+// Only follow a return URL back into an area the logged-in role is allowed to see
+export function resolveReturnUrl(returnUrl: string | null, role: UserRole) {
+  if (returnUrl && (returnUrl.startsWith(`/${role}/`) || returnUrl.startsWith("/account/"))) {
+    return returnUrl
+  }
+  return homePathForRole(role)
+}
+
+// Where a supplier who still owes two-factor setup has to go instead of pathname, or null to let them through
+export function twoFactorRedirect(session: Session, pathname: string) {
+  return session.twoFactorSetupRequired && pathname !== TWO_FACTOR_SETUP_PATH ? TWO_FACTOR_SETUP_PATH : null
+}
+
+// Where to go right after logging in or signing up
+export function postLoginPath(session: Session, returnUrl: string | null) {
+  return session.twoFactorSetupRequired ? TWO_FACTOR_SETUP_PATH : resolveReturnUrl(returnUrl, session.role)
+}
@@ -0,0 +1,66 @@
+import type { Category } from "@/lib/api"
+
+export interface CategoryNode extends Category {
+  depth: number
+  children: CategoryNode[]
+}
+
+// Categories whose parent is missing from the list are treated as roots, so nothing goes unlisted
+export function buildCategoryTree(categories: Category[]) {
+  const nodes = new Map<string, CategoryNode>()
+  categories.forEach((category) => nodes.set(category.id, { ...category, depth: 0, children: [] }))
+
+  const roots: CategoryNode[] = []
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent && parent !== node) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  const placed = new Set<CategoryNode>()
+  const setDepth = (node: CategoryNode, depth: number) => {
+    placed.add(node)
+    node.depth = depth
+    node.children.sort((a, b) => a.name.localeCompare(b.name))
+    node.children.forEach((child) => setDepth(child, depth + 1))
+  }
+  roots.forEach((root) => setDepth(root, 0))
+
+  // Categories whose parents loop back on themselves hang off no root; cut each loop and list it as a root too
+  nodes.forEach((node) => {
+    if (placed.has(node)) return
+    const path = new Set<CategoryNode>()
+    let member = node
+    while (!path.has(member)) {
+      path.add(member)
+      member = nodes.get(member.parent_id!)!
+    }
+    const parent = nodes.get(member.parent_id!)!
+    parent.children = parent.children.filter((child) => child !== member)
+    roots.push(member)
+    setDepth(member, 0)
+  })
+
+  roots.sort((a, b) => a.name.localeCompare(b.name))
+  return roots
+}
+
+// Depth-first, so each category comes right after its parent
+export function flattenCategoryTree(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)])
+}
+
+// From the root down to the category, e.g. Electronics › Mobile › Phones
+export function categoryPath(categories: Category[], id: string | null | undefined) {
+  const path: Category[] = []
+  let current = categories.find((category) => category.id === id)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    const parentId = current.parent_id
+    current = categories.find((category) => category.id === parentId)
+  }
+  return path
+}
@@ -0,0 +1,199 @@
+// A small crontab-style rule: "minute hour day-of-month month day-of-week", in a given IANA time zone.
+// Fields take *, numbers, ranges (1-5), lists (1,15) and steps (*/2, 1-10/3).
+// Months and weekdays also take names (JAN, MON).
+// Kept free of app imports so the mock backend can use it to run schedules too.
+
+export interface CronRule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // Whether the day-of-month and day-of-week fields were left as *
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CronParseError"
+  }
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
+
+const FIELDS = [
+  { label: "minute", min: 0, max: 59 },
+  { label: "hour", min: 0, max: 23 },
+  { label: "day of month", min: 1, max: 31 },
+  { label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday, as in most crontabs
+  { label: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+] as const
+
+// No rule is looked at further ahead than this, so one that can never match (e.g. 30 February) ends
+const SEARCH_LIMIT_YEARS = 5
+
+function parseValue(text: string, field: (typeof FIELDS)[number]) {
+  const names: readonly string[] = "names" in field ? field.names : []
+  const nameIndex = names.indexOf(text.toUpperCase())
+  if (nameIndex !== -1) {
+    return nameIndex + (field.min === 1 ? 1 : 0)
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronParseError(`"${text}" is not a valid ${field.label}`)
+  }
+  const value = Number(text)
+  if (value < field.min || value > field.max) {
+    throw new CronParseError(`The ${field.label} must be between ${field.min} and ${field.max}`)
+  }
+  return value
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number]) {
+  const values = new Set<number>()
+  text.split(",").forEach((part) => {
+    const [range, stepText, ...extra] = part.split("/")
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1 || extra.length > 0) {
+      throw new CronParseError(`"${part}" has an invalid step in the ${field.label} field`)
+    }
+
+    let from: number
+    let to: number
+    if (range === "*") {
+      from = field.min
+      to = field.max
+    } else if (range.includes("-")) {
+      const bounds = range.split("-")
+      if (bounds.length !== 2) {
+        throw new CronParseError(`"${range}" is not a range in the ${field.label} field`)
+      }
+      const [start, end] = bounds
+      from = parseValue(start, field)
+      to = parseValue(end, field)
+      if (from > to) {
+        throw new CronParseError(`"${range}" runs backwards in the ${field.label} field`)
+      }
+    } else {
+      from = parseValue(range, field)
+      // "5/15" means from 5 to the end in steps of 15
+      to = stepText === undefined ? from : field.max
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value)
+    }
+  })
+  return values
+}
+
+export function parseCron(expression: string): CronRule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new CronParseError("A rule needs five fields: minute, hour, day of month, month and day of week")
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  if (weekdays.delete(7)) {
+    weekdays.add(0)
+  }
+  return { minutes, hours, days, months, weekdays, anyDay: parts[2] === "*", anyWeekday: parts[4] === "*" }
+}
+
+// The error message for an invalid rule, or null when it parses
+export function validateCron(expression: string) {
+  try {
+    parseCron(expression)
+    return null
+  } catch (error) {
+    if (error instanceof CronParseError) return error.message
+    throw error
+  }
+}
+
+// The time zone of whoever is running this, e.g. the buyer's browser
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+// The error message for a time zone Intl doesn't know, or null when it is valid
+export function validateTimeZone(timeZone: string) {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone })
+    return null
+  } catch (error) {
+    return `"${timeZone}" is not a known time zone`
+  }
+}
+
+// Wall-clock time is handled as a Date whose UTC fields hold the time as read in the zone
+function wallClock(instant: number, formatter: Intl.DateTimeFormat) {
+  const parts: Record<string, number> = {}
+  formatter.formatToParts(new Date(instant)).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = Number(part.value)
+  })
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute)
+}
+
+// The instant a wall-clock time happens in the zone; times skipped by a DST change land just after the gap
+function instantOf(wall: number, formatter: Intl.DateTimeFormat) {
+  const offsetAt = (instant: number) => wallClock(instant, formatter) - Math.floor(instant / 60000) * 60000
+  const guess = wall - offsetAt(wall)
+  const instant = wall - offsetAt(guess)
+  // Only a skipped time fails to read back as itself; the guess then used the offset from before the change
+  return wallClock(instant, formatter) === wall ? instant : guess
+}
+
+// When both day fields are restricted a day matching either one counts, as in cron
+function matchesDay(rule: CronRule, date: Date) {
+  const day = rule.days.has(date.getUTCDate())
+  const weekday = rule.weekdays.has(date.getUTCDay())
+  if (rule.anyDay) return weekday
+  if (rule.anyWeekday) return day
+  return day || weekday
+}
+
+// The next `count` times the rule fires strictly after `after`, reading the rule in `timeZone`;
+// fewer if it stops matching within the search limit
+export function nextCronRuns(expression: string | CronRule, after: Date, count = 1, timeZone = localTimeZone()) {
+  const rule = typeof expression === "string" ? parseCron(expression) : expression
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  })
+
+  const date = new Date(wallClock(after.getTime(), formatter))
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+  const limit = new Date(date)
+  limit.setUTCFullYear(limit.getUTCFullYear() + SEARCH_LIMIT_YEARS)
+
+  const runs: Date[] = []
+  while (runs.length < count && date < limit) {
+    if (!rule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0)
+    } else if (!matchesDay(rule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0)
+    } else if (!rule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0)
+    } else if (!rule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+    } else {
+      // Wall-clock times repeated or skipped by a DST change can map onto a run already listed
+      const run = instantOf(date.getTime(), formatter)
+      const last = runs.length > 0 ? runs[runs.length - 1].getTime() : after.getTime()
+      if (run > last) {
+        runs.push(new Date(run))
+      }
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+    }
+  }
+  return runs
+}
@@ -0,0 +1,8 @@
+// Set NEXT_PUBLIC_USE_MOCK_BACKEND=true to run the app against `pnpm mock` instead of a real backend
+export const USE_MOCK_BACKEND = process.env.NEXT_PUBLIC_USE_MOCK_BACKEND === "true"
+
+export const MOCK_BACKEND_PORT = 4010
+
+export const MOCK_BACKEND_API_URL = `http://localhost:${MOCK_BACKEND_PORT}/api/v1`
+
+export const MOCK_BACKEND_WS_URL = `ws://localhost:${MOCK_BACKEND_PORT}/ws`
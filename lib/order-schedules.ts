@@ -0,0 +1,92 @@
+import type { OrderSchedule, OrderScheduleInput } from "@/lib/api"
+import { localTimeZone, nextCronRuns } from "@/lib/cron"
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// Later days are left out so the schedule runs in every month, February included
+export const MONTH_DAYS = Array.from({ length: 28 }, (_, index) => index + 1)
+
+export const FREQUENCY_LABELS: Record<OrderSchedule["frequency"], string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  custom: "Custom rule",
+}
+
+// What the schedule form edits; weekly and monthly rules are built from the picked day and time
+export interface ScheduleRuleValues {
+  frequency: OrderSchedule["frequency"]
+  weekday: string
+  dayOfMonth: string
+  // HH:MM
+  time: string
+  cron: string
+}
+
+export const DEFAULT_RULE_VALUES: ScheduleRuleValues = {
+  frequency: "weekly",
+  weekday: "1",
+  dayOfMonth: "1",
+  time: "09:00",
+  cron: "0 9 * * 1-5",
+}
+
+export function buildCron(values: ScheduleRuleValues) {
+  const [hour, minute] = values.time.split(":").map(Number)
+  switch (values.frequency) {
+    case "weekly":
+      return `${minute} ${hour} * * ${values.weekday}`
+    case "monthly":
+      return `${minute} ${hour} ${values.dayOfMonth} * *`
+    default:
+      return values.cron.trim()
+  }
+}
+
+// Turns a saved rule back into form values; weekly and monthly rules are always in the shape buildCron makes
+export function readCron(frequency: OrderSchedule["frequency"], cron: string): ScheduleRuleValues {
+  const [minute, hour, day, , weekday] = cron.split(/\s+/)
+  const time = `${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`
+  switch (frequency) {
+    case "weekly":
+      return { ...DEFAULT_RULE_VALUES, frequency, weekday, time }
+    case "monthly":
+      return { ...DEFAULT_RULE_VALUES, frequency, dayOfMonth: day, time }
+    default:
+      return { ...DEFAULT_RULE_VALUES, frequency, cron }
+  }
+}
+
+export function toScheduleInput(templateId: string, values: ScheduleRuleValues, timeZone: string): OrderScheduleInput {
+  return { template_id: templateId, frequency: values.frequency, cron: buildCron(values), time_zone: timeZone }
+}
+
+// Named only when it isn't the viewer's own, so most buyers never see it
+function timeZoneSuffix(timeZone: string) {
+  return timeZone === localTimeZone() ? "" : ` (${timeZone})`
+}
+
+export function describeSchedule(schedule: Pick<OrderSchedule, "frequency" | "cron" | "time_zone">) {
+  const { weekday, dayOfMonth, time } = readCron(schedule.frequency, schedule.cron)
+  const suffix = timeZoneSuffix(schedule.time_zone)
+  switch (schedule.frequency) {
+    case "weekly":
+      return `Every ${WEEKDAYS[Number(weekday)]} at ${time}${suffix}`
+    case "monthly":
+      return `Monthly on day ${dayOfMonth} at ${time}${suffix}`
+    default:
+      return `Custom rule: ${schedule.cron}${suffix}`
+  }
+}
+
+// Shown in the schedule's time zone, so the times line up with the rule
+export function formatRunDate(date: Date | string, timeZone = localTimeZone()) {
+  const text = new Date(date).toLocaleString(undefined, { dateStyle: "full", timeStyle: "short", timeZone })
+  return `${text}${timeZoneSuffix(timeZone)}`
+}
+
+// The booked next run followed by the ones the rule gives after it
+export function upcomingRuns(schedule: Pick<OrderSchedule, "cron" | "time_zone" | "next_run_at">, count: number) {
+  if (!schedule.next_run_at) return []
+  const next = new Date(schedule.next_run_at)
+  return [next, ...nextCronRuns(schedule.cron, next, count - 1, schedule.time_zone)]
+}
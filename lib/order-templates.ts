@@ -0,0 +1,20 @@
+import { z } from "zod"
+import type { OrderTemplate, OrderTemplateInput } from "@/lib/api"
+
+export const templateNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Template name is required")
+  .max(80, "Template name must be 80 characters or fewer")
+
+// The request body that saves a template back with its lines unchanged
+export function toTemplateInput(template: Pick<OrderTemplate, "name" | "items">): OrderTemplateInput {
+  return {
+    name: template.name,
+    items: template.items.map(({ product_id, product_option_id, quantity }) => ({
+      product_id,
+      product_option_id,
+      quantity,
+    })),
+  }
+}
@@ -0,0 +1,13 @@
+import { z } from "zod"
+
+export const passwordRules = [
+  { label: "At least 8 characters", test: (value: string) => value.length >= 8 },
+  { label: "One uppercase letter", test: (value: string) => /[A-Z]/.test(value) },
+  { label: "One lowercase letter", test: (value: string) => /[a-z]/.test(value) },
+  { label: "One number", test: (value: string) => /\d/.test(value) },
+  { label: "One symbol", test: (value: string) => /[^A-Za-z0-9]/.test(value) },
+]
+
+export const passwordSchema = z
+  .string()
+  .refine((value) => passwordRules.every((rule) => rule.test(value)), "Password does not meet the requirements")
@@ -0,0 +1,88 @@
+import type { Product, ProductOption } from "@/lib/api"
+
+export interface QuickOrderLine {
+  // Line numbers in the pasted text; more than one when the same code is listed again
+  lineNumbers: number[]
+  code: string
+  quantity: number
+}
+
+export interface QuickOrderParseError {
+  lineNumber: number
+  text: string
+  message: string
+}
+
+export type QuickOrderStatus = "ok" | "partial" | "out_of_stock" | "unknown"
+
+export interface ResolvedQuickOrderLine extends QuickOrderLine {
+  status: QuickOrderStatus
+  product?: Product
+  option?: ProductOption
+  // How many will go into the cart
+  available: number
+}
+
+// Spreadsheets paste as tab-separated, exports are usually comma- or semicolon-separated
+const FIELD_SEPARATOR = /[\t,;]/
+
+function unquote(field: string) {
+  return field.trim().replace(/^"(.*)"$/, "$1").trim()
+}
+
+// Reads "option code, quantity" lines, skipping blank lines and a header row; repeated codes are added together
+export function parseQuickOrder(text: string) {
+  const byCode = new Map<string, QuickOrderLine>()
+  const errors: QuickOrderParseError[] = []
+  let seenContent = false
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1
+    const line = raw.trim()
+    if (!line) return
+
+    const [code = "", quantityText = "", ...rest] = line.split(FIELD_SEPARATOR).map(unquote)
+    const isFirst = !seenContent
+    seenContent = true
+    if (isFirst && /code/i.test(code) && !/^\d+$/.test(quantityText)) return
+
+    if (!code) {
+      errors.push({ lineNumber, text: line, message: "Missing option code" })
+      return
+    }
+    if (rest.some((field) => field !== "")) {
+      errors.push({ lineNumber, text: line, message: "Expected just an option code and a quantity" })
+      return
+    }
+    if (!/^\d+$/.test(quantityText) || Number(quantityText) === 0) {
+      errors.push({ lineNumber, text: line, message: "Quantity must be a whole number above zero" })
+      return
+    }
+
+    const key = code.toUpperCase()
+    const existing = byCode.get(key)
+    if (existing) {
+      existing.lineNumbers.push(lineNumber)
+      existing.quantity += Number(quantityText)
+    } else {
+      byCode.set(key, { lineNumbers: [lineNumber], code, quantity: Number(quantityText) })
+    }
+  })
+
+  return { lines: Array.from(byCode.values()), errors }
+}
+
+// Matches each line to its product option and checks it against the stock
+export function resolveQuickOrder(lines: QuickOrderLine[], products: Product[]): ResolvedQuickOrderLine[] {
+  return lines.map((line) => {
+    const code = line.code.toUpperCase()
+    for (const product of products) {
+      const option = product.options.find((candidate) => candidate.code.toUpperCase() === code)
+      if (!option) continue
+      const available = Math.min(line.quantity, option.quantity)
+      const status = available === 0 ? "out_of_stock" : available < line.quantity ? "partial" : "ok"
+      return { ...line, status, product, option, available }
+    }
+    return { ...line, status: "unknown", available: 0 }
+  })
+}
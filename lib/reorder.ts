@@ -0,0 +1,33 @@
+import type { Product, ProductOption, PurchaseOrderItem } from "@/lib/api"
+
+export type ReorderStatus = "ok" | "partial" | "out_of_stock" | "discontinued"
+
+// What a line needs to be ordered again; both order items and template items have it
+export interface ReorderItem {
+  product_id: string
+  product_option_id: string
+  quantity: number
+}
+
+export interface ReorderLine<T extends ReorderItem = PurchaseOrderItem> {
+  item: T
+  status: ReorderStatus
+  product?: Product
+  option?: ProductOption
+  // How many can be ordered again right now
+  available: number
+}
+
+// Matches earlier lines to the products as they are now; options that no longer exist are discontinued
+export function buildReorder<T extends ReorderItem>(items: T[], products: Product[]): ReorderLine<T>[] {
+  return items.map((item) => {
+    const product = products.find((candidate) => candidate.id === item.product_id)
+    const option = product?.options.find((candidate) => candidate.id === item.product_option_id)
+    if (!product || !option) {
+      return { item, status: "discontinued", available: 0 }
+    }
+    const available = Math.min(item.quantity, option.quantity)
+    const status = available === 0 ? "out_of_stock" : available < item.quantity ? "partial" : "ok"
+    return { item, status, product, option, available }
+  })
+}
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { sessionFromToken } from "@/lib/auth"
+import { MOCK_BACKEND_API_URL, USE_MOCK_BACKEND } from "@/lib/mock-backend"
+
+// Only read on the server, so the backend origin never ships to the browser
+export const BACKEND_API_URL = USE_MOCK_BACKEND
+  ? MOCK_BACKEND_API_URL
+  : process.env.BACKEND_API_URL || "http://localhost:8080/api/v1"
+
+export const SESSION_COOKIE = "session"
+
+export function backendUrl(path: string) {
+  return `${BACKEND_API_URL}${path}`
+}
+
+// The cookie outlives the token on purpose, so an expired session can be told apart from no session
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE)
+}
+
+// The session the cookie describes, whether or not it has expired
+export function sessionFromRequest(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  return token ? sessionFromToken(token) : null
+}
+
+// POST credentials to a backend endpoint that answers with a token, and turn that token into a session cookie
+export async function authenticate(path: string, body: string) {
+  let response: Response
+  try {
+    response = await fetch(backendUrl(path), {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body,
+      cache: "no-store",
+    })
+  } catch (error) {
+    return NextResponse.json({ message: "Unable to reach the backend" }, { status: 502 })
+  }
+
+  const data = await response.json().catch(() => ({}))
+  // A second factor is still needed; the client answers the challenge before any token is issued
+  if (response.ok && data.status === "2fa_required") {
+    return NextResponse.json(data)
+  }
+  if (!response.ok || !data.token) {
+    return NextResponse.json(data, { status: response.ok ? 401 : response.status })
+  }
+
+  const { token, ...rest } = data
+  const session = sessionFromToken(token)
+  if (!session) {
+    return NextResponse.json({ message: "This account has no buyer or supplier role" }, { status: 403 })
+  }
+
+  // Hand the browser the session details but never the token itself
+  const result = NextResponse.json({ ...rest, session })
+  setSessionCookie(result, token)
+  return result
+}
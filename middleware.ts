@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isSessionExpired, loginPath, twoFactorRedirect } from "@/lib/auth"
+import { sessionFromRequest } from "@/lib/server/backend"
+
+// Keep buyers and suppliers inside their own area, and logged-out users out of /account, before any page code runs.
+// Suppliers who still owe two-factor setup only get as far as the security page.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const session = sessionFromRequest(request)
+  const requiredRole = pathname.startsWith("/supplier") ? "supplier" : pathname.startsWith("/buyer") ? "buyer" : null
+
+  const returnUrl = pathname + search
+
+  if (session && isSessionExpired(session)) {
+    return NextResponse.redirect(new URL(loginPath({ expired: true, returnUrl }), request.url))
+  }
+  if (!session || (requiredRole && session.role !== requiredRole)) {
+    return NextResponse.redirect(new URL(loginPath({ returnUrl }), request.url))
+  }
+  const setupPath = requiredRole === "supplier" ? twoFactorRedirect(session, pathname) : null
+  if (setupPath) {
+    return NextResponse.redirect(new URL(setupPath, request.url))
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ["/buyer/:path*", "/supplier/:path*", "/account/:path*"],
+}
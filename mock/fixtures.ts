@@ -0,0 +1,326 @@
+import type { Category, DeliveryAddress, OrderSchedule, OrderTemplate, Product, PurchaseOrder } from "../lib/api/types"
+import { nextCronRuns } from "../lib/cron"
+import type { UserRole } from "../lib/auth"
+
+export interface MockUser {
+  id: string
+  role: UserRole
+  username: string
+  email: string
+  password: string
+  company: {
+    name: string
+    address: string
+    phone?: string
+  }
+  twoFactor: {
+    enabled: boolean
+    secret: string | null
+    backupCodes: string[]
+  }
+  addresses: DeliveryAddress[]
+}
+
+export interface MockProduct extends Product {
+  supplier_id: string
+  supplier_name: string
+  created_at: string
+}
+
+export interface MockPurchaseOrder extends PurchaseOrder {
+  buyer_id: string
+  supplier_id: string
+  supplier_name: string
+  created_at: string
+}
+
+export interface MockOrderTemplate extends OrderTemplate {
+  buyer_id: string
+}
+
+export interface MockFavorite {
+  buyer_id: string
+  product_id: string
+  created_at: string
+}
+
+export interface MockWatch {
+  buyer_id: string
+  product_id: string
+  product_option_id: string
+  price_drop: boolean
+  back_in_stock: boolean
+  created_at: string
+}
+
+// The template name is looked up when the schedule is read, so renaming the template carries over
+export interface MockOrderSchedule extends Omit<OrderSchedule, "template_name"> {
+  buyer_id: string
+}
+
+export interface MockDatabase {
+  users: MockUser[]
+  categories: Category[]
+  products: MockProduct[]
+  orders: MockPurchaseOrder[]
+  orderTemplates: MockOrderTemplate[]
+  orderSchedules: MockOrderSchedule[]
+  favorites: MockFavorite[]
+  // Option alerts a buyer opted into
+  watches: MockWatch[]
+  // Products announced over the WebSocket one by one while the mock runs
+  upcomingProducts: MockProduct[]
+}
+
+export const MOCK_PASSWORD = "Password1!"
+
+// The mock accepts this as the current authenticator code for every account
+export const MOCK_TOTP_CODE = "123456"
+
+const SUPPLIERS = {
+  kaze: { id: "user-supplier", name: "Kaze Electronics" },
+  nami: { id: "user-supplier2", name: "Nami Audio & Wearables" },
+}
+
+// Two levels deep under each root, so filtering by a parent has to take in its descendants
+const CATEGORIES: Category[] = [
+  { id: "cat-electronics", name: "Electronics", parent_id: null },
+  { id: "cat-mobile", name: "Mobile", parent_id: "cat-electronics" },
+  { id: "cat-phone", name: "Phones", parent_id: "cat-mobile" },
+  { id: "cat-watch", name: "Smartwatches", parent_id: "cat-mobile" },
+  { id: "cat-computer-accessories", name: "Computer Accessories", parent_id: "cat-electronics" },
+  { id: "cat-keyboard", name: "Keyboards", parent_id: "cat-computer-accessories" },
+  { id: "cat-audio-video", name: "Audio & Video", parent_id: null },
+  { id: "cat-speaker", name: "Speakers", parent_id: "cat-audio-video" },
+  { id: "cat-tv", name: "TVs", parent_id: "cat-audio-video" },
+  { id: "cat-camera", name: "Cameras", parent_id: "cat-audio-video" },
+]
+
+type Supplier = (typeof SUPPLIERS)[keyof typeof SUPPLIERS]
+
+const CATALOG: { category: string; supplier: Supplier; names: string[]; options: string[]; basePrice: number }[] = [
+  { category: "phone", supplier: SUPPLIERS.kaze, names: ["Aster X1", "Aster X1 Pro", "Nimbus 5", "Nimbus 5 Mini", "Pico Lite"], options: ["128GB", "256GB"], basePrice: 64000 },
+  { category: "keyboard", supplier: SUPPLIERS.kaze, names: ["Typist 87", "Typist 104", "Silent Office", "Travel Fold", "Studio TKL"], options: ["Black", "White"], basePrice: 9800 },
+  { category: "speaker", supplier: SUPPLIERS.nami, names: ["Boom Cube", "Boom Cube Max", "Shelf Duo", "Room One", "Pocket Beat"], options: ["Charcoal", "Sand"], basePrice: 12800 },
+  { category: "watch", supplier: SUPPLIERS.nami, names: ["Pulse 3", "Pulse 3 Sport", "Trail GPS", "Classic 40", "Kids Band"], options: ["40mm", "44mm"], basePrice: 29800 },
+  { category: "tv", supplier: SUPPLIERS.kaze, names: ["Vista 43", "Vista 55", "Vista 65 OLED", "Mini LED 50", "Room 32"], options: ["Standard", "Wall mount kit"], basePrice: 54800 },
+  { category: "camera", supplier: SUPPLIERS.kaze, names: ["Frame M10", "Frame M10 Kit", "Action 4K", "Vlog Compact", "Instant Snap"], options: ["Body", "Lens kit"], basePrice: 39800 },
+]
+
+function slug(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]+/g, "-")
+}
+
+function buildProduct(
+  category: string,
+  supplier: Supplier,
+  name: string,
+  options: string[],
+  basePrice: number,
+  index: number,
+): MockProduct {
+  const id = `prod-${category}-${index + 1}`
+  const code = `${category.slice(0, 3).toUpperCase()}-${String(index + 1).padStart(3, "0")}`
+  return {
+    id,
+    code,
+    name,
+    img: "",
+    category_id: `cat-${category}`,
+    supplier_id: supplier.id,
+    supplier_name: supplier.name,
+    created_at: new Date(Date.UTC(2025, 0, 1 + index * 7)).toISOString(),
+    options: options.map((option, optionIndex) => ({
+      id: `${id}-opt-${optionIndex + 1}`,
+      code: `${code}-${slug(option)}`,
+      name: option,
+      price: basePrice + index * 1000 + optionIndex * 5000,
+      // A few options start out of stock or nearly so, to exercise stock limits
+      quantity: (index * 7 + optionIndex * 13) % 5 === 0 ? 0 : ((index + 1) * 11 + optionIndex * 17) % 60,
+    })),
+  }
+}
+
+function buildOrder(
+  number: number,
+  status: string,
+  date: string,
+  items: { product: MockProduct; optionIndex: number; quantity: number }[],
+): MockPurchaseOrder {
+  const id = `po-${number}`
+  const orderItems = items.map(({ product, optionIndex, quantity }, index) => {
+    const option = product.options[optionIndex]
+    return {
+      id: `${id}-item-${index + 1}`,
+      product_id: product.id,
+      product_option_id: option.id,
+      product_name: product.name,
+      product_option_name: option.name,
+      unit_price: option.price,
+      total_price: option.price * quantity,
+      quantity,
+      currency: "JPY",
+    }
+  })
+  return {
+    id,
+    order_number: `PO-${String(number).padStart(5, "0")}`,
+    status,
+    order_date: date,
+    created_at: date,
+    total_amount: orderItems.reduce((total, item) => total + item.total_price, 0),
+    currency: "JPY",
+    notes: null,
+    requested_delivery_date: null,
+    delivery_address: null,
+    items: orderItems,
+    buyer_id: "user-buyer",
+    supplier_id: items[0].product.supplier_id,
+    supplier_name: items[0].product.supplier_name,
+  }
+}
+
+// A fresh copy of the seed data; the server mutates it freely and can start over from here
+export function createFixtures(extraProducts = 0): MockDatabase {
+  const catalog = CATALOG.flatMap(({ category, supplier, names, options, basePrice }) =>
+    names.map((name, index) => buildProduct(category, supplier, name, options, basePrice, index)),
+  )
+  // Generated variants of the catalog, numbered on from the real products so their ids don't collide
+  const generated = Array.from({ length: Math.max(0, extraProducts) }, (_, index) => {
+    const { category, supplier, names, options, basePrice } = CATALOG[index % CATALOG.length]
+    const number = Math.floor(index / CATALOG.length) + names.length
+    return buildProduct(category, supplier, `${names[number % names.length]} #${number + 1}`, options, basePrice, number)
+  })
+  // Hold back the last product of each category so there is something new to announce
+  const products = [...catalog.filter((product) => !product.id.endsWith("-5")), ...generated]
+  const upcomingProducts = catalog.filter((product) => product.id.endsWith("-5"))
+
+  const users: MockUser[] = [
+    {
+      id: "user-buyer",
+      role: "buyer",
+      username: "buyer",
+      email: "buyer@example.com",
+      password: MOCK_PASSWORD,
+      company: { name: "Sakura Retail", address: "1-1 Marunouchi, Chiyoda, Tokyo", phone: "03-0000-0001" },
+      twoFactor: { enabled: false, secret: null, backupCodes: [] },
+      addresses: [
+        {
+          id: "addr-buyer-hq",
+          label: "Head office",
+          recipient: "Sakura Retail Purchasing",
+          postal_code: "100-0005",
+          address: "1-1 Marunouchi, Chiyoda, Tokyo",
+          phone: "03-0000-0001",
+          is_default: true,
+        },
+        {
+          id: "addr-buyer-warehouse",
+          label: "Kawasaki warehouse",
+          recipient: "Sakura Retail Logistics",
+          postal_code: "210-0001",
+          address: "5-3 Honcho, Kawasaki-ku, Kawasaki, Kanagawa",
+          phone: "044-000-0003",
+        },
+      ],
+    },
+    {
+      id: "user-supplier",
+      role: "supplier",
+      username: "supplier",
+      email: "supplier@example.com",
+      password: MOCK_PASSWORD,
+      company: { name: "Kaze Electronics", address: "2-2 Umeda, Kita, Osaka", phone: "06-0000-0002" },
+      twoFactor: { enabled: true, secret: "JBSWY3DPEHPK3PXP", backupCodes: ["11111111", "22222222"] },
+      addresses: [],
+    },
+    {
+      id: "user-supplier2",
+      role: "supplier",
+      username: "supplier2",
+      email: "supplier2@example.com",
+      password: MOCK_PASSWORD,
+      company: { name: "Nami Audio & Wearables", address: "3-3 Tenjin, Chuo, Fukuoka", phone: "092-000-0004" },
+      twoFactor: { enabled: true, secret: "JBSWY3DPEHPK3PXP", backupCodes: ["33333333", "44444444"] },
+      addresses: [],
+    },
+  ]
+
+  const orders = [
+    buildOrder(1, "finished", "2025-03-02T09:00:00.000Z", [
+      { product: products[0], optionIndex: 0, quantity: 2 },
+      { product: products[4], optionIndex: 1, quantity: 5 },
+    ]),
+    buildOrder(2, "delivering", "2025-04-11T09:00:00.000Z", [{ product: products[9], optionIndex: 0, quantity: 3 }]),
+    buildOrder(3, "draft", "2025-05-20T09:00:00.000Z", [
+      { product: products[17], optionIndex: 1, quantity: 1 },
+      { product: products[21], optionIndex: 0, quantity: 4 },
+    ]),
+  ]
+
+  const orderTemplates: MockOrderTemplate[] = [
+    {
+      id: "tmpl-1",
+      name: "Monthly store restock",
+      buyer_id: "user-buyer",
+      created_at: "2025-03-02T09:30:00.000Z",
+      updated_at: "2025-03-02T09:30:00.000Z",
+      items: [
+        { product: products[0], optionIndex: 0, quantity: 2 },
+        { product: products[4], optionIndex: 1, quantity: 5 },
+        { product: products[9], optionIndex: 0, quantity: 3 },
+      ].map(({ product, optionIndex, quantity }) => ({
+        product_id: product.id,
+        product_option_id: product.options[optionIndex].id,
+        product_name: product.name,
+        product_option_name: product.options[optionIndex].name,
+        quantity,
+      })),
+    },
+  ]
+
+  const orderSchedules: MockOrderSchedule[] = [
+    {
+      id: "sched-1",
+      template_id: "tmpl-1",
+      buyer_id: "user-buyer",
+      frequency: "monthly",
+      cron: "0 9 1 * *",
+      time_zone: "Asia/Tokyo",
+      status: "active",
+      next_run_at: nextCronRuns("0 9 1 * *", new Date(), 1, "Asia/Tokyo")[0].toISOString(),
+      created_at: "2025-03-02T09:35:00.000Z",
+      runs: [],
+    },
+  ]
+
+  const favorites: MockFavorite[] = [products[0], products[9]].map((product) => ({
+    buyer_id: "user-buyer",
+    product_id: product.id,
+    created_at: "2025-04-01T09:00:00.000Z",
+  }))
+
+  // The first option starts out of stock, so restocking it as the supplier sends an alert
+  const watches: MockWatch[] = [
+    { product: products[0], optionIndex: 0, price_drop: false, back_in_stock: true },
+    { product: products[9], optionIndex: 0, price_drop: true, back_in_stock: false },
+  ].map(({ product, optionIndex, ...alerts }) => ({
+    buyer_id: "user-buyer",
+    product_id: product.id,
+    product_option_id: product.options[optionIndex].id,
+    ...alerts,
+    created_at: "2025-04-01T09:00:00.000Z",
+  }))
+
+  return {
+    users,
+    categories: CATEGORIES.map((category) => ({ ...category })),
+    products,
+    orders,
+    orderTemplates,
+    orderSchedules,
+    favorites,
+    watches,
+    upcomingProducts,
+  }
+}
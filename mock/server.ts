@@ -0,0 +1,1172 @@
+import { randomUUID } from "node:crypto"
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import { WebSocket, WebSocketServer } from "ws"
+import { nextCronRuns, validateCron, validateTimeZone } from "../lib/cron"
+import { MOCK_BACKEND_PORT } from "../lib/mock-backend"
+import {
+  createFixtures,
+  MOCK_TOTP_CODE,
+  type MockDatabase,
+  type MockFavorite,
+  type MockOrderSchedule,
+  type MockOrderTemplate,
+  type MockProduct,
+  type MockPurchaseOrder,
+  type MockUser,
+  type MockWatch,
+} from "./fixtures"
+
+// How often a fixture product or order update is pushed over the WebSocket; 0 turns it off
+const EVENT_INTERVAL_MS = Number(process.env.MOCK_EVENT_INTERVAL_MS ?? 30000)
+// How often schedules are checked for runs that are due; 0 turns automatic orders off
+const SCHEDULE_INTERVAL_MS = Number(process.env.MOCK_SCHEDULE_INTERVAL_MS ?? 15000)
+// Pads the catalog out with generated products, to try the marketplace against a large catalog
+const EXTRA_PRODUCTS = Number(process.env.MOCK_EXTRA_PRODUCTS ?? 0)
+
+const TOKEN_TTL_SECONDS = 15 * 60
+
+const ORDER_STATUSES = ["draft", "accepted", "delivering", "received", "finished", "cancelled"]
+
+let db: MockDatabase = createFixtures(EXTRA_PRODUCTS)
+const twoFactorChallenges = new Map<string, string>()
+const resetTokens = new Map<string, string>()
+// One-time tickets for opening the WebSocket, and which user each open socket belongs to
+const socketTickets = new Map<string, string>()
+const socketUsers = new WeakMap<WebSocket, string>()
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+interface RouteContext {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: any
+  request: IncomingMessage
+}
+
+type Handler = (context: RouteContext) => unknown
+
+const routes: { method: string; pattern: RegExp; keys: string[]; handler: Handler }[] = []
+
+function route(method: string, path: string, handler: Handler) {
+  const keys: string[] = []
+  const pattern = new RegExp(
+    "^" +
+      path.replace(/:(\w+)/g, (_, key) => {
+        keys.push(key)
+        return "([^/]+)"
+      }) +
+      "$",
+  )
+  routes.push({ method, pattern, keys, handler })
+}
+
+function owesTwoFactorSetup(user: MockUser) {
+  return user.role === "supplier" && !user.twoFactor.enabled
+}
+
+// Tokens look like JWTs so the app can decode them, but carry no real signature
+function createToken(user: MockUser) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64").replace(/=+$/, "")
+  const payload = {
+    sub: user.id,
+    role: user.role,
+    username: user.username,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+    two_factor_setup_required: owesTwoFactorSetup(user) || undefined,
+  }
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode(payload)}.mock`
+}
+
+// The user the token belongs to, whether or not they still owe two-factor setup
+function tokenUser(request: IncomingMessage) {
+  const token = request.headers.authorization?.replace(/^Bearer /, "")
+  if (!token) {
+    throw new HttpError(401, "Missing token")
+  }
+  let payload: { sub?: string; exp?: number }
+  try {
+    payload = JSON.parse(Buffer.from(token.split(".")[1], "base64").toString())
+  } catch (error) {
+    throw new HttpError(401, "Invalid token")
+  }
+  if (!payload.exp || payload.exp * 1000 <= Date.now()) {
+    throw new HttpError(401, "Token expired")
+  }
+  const user = db.users.find((candidate) => candidate.id === payload.sub)
+  if (!user) {
+    throw new HttpError(401, "Invalid token")
+  }
+  return user
+}
+
+// Suppliers can only reach their own security settings until two-factor authentication is on
+function currentUser(request: IncomingMessage) {
+  const user = tokenUser(request)
+  if (owesTwoFactorSetup(user)) {
+    throw new HttpError(403, "Set up two-factor authentication first")
+  }
+  return user
+}
+
+function requireRole(request: IncomingMessage, role: MockUser["role"]) {
+  const user = currentUser(request)
+  if (user.role !== role) {
+    throw new HttpError(403, `Only ${role}s can do this`)
+  }
+  return user
+}
+
+function tokenResponse(user: MockUser) {
+  return { token: createToken(user) }
+}
+
+function verifyCode(user: MockUser, code: string, allowBackupCode = false) {
+  if (code === MOCK_TOTP_CODE) {
+    return true
+  }
+  if (allowBackupCode && user.twoFactor.backupCodes.includes(code)) {
+    user.twoFactor.backupCodes = user.twoFactor.backupCodes.filter((backupCode) => backupCode !== code)
+    return true
+  }
+  return false
+}
+
+function newBackupCodes() {
+  return Array.from({ length: 8 }, () => String(Math.floor(10000000 + Math.random() * 90000000)))
+}
+
+function findProduct(id: string) {
+  const product = db.products.find((candidate) => candidate.id === id)
+  if (!product) {
+    throw new HttpError(404, "Product not found")
+  }
+  return product
+}
+
+function findOrder(id: string, user: MockUser) {
+  const order = db.orders.find((candidate) => candidate.id === id)
+  if (!order || (user.role === "buyer" ? order.buyer_id : order.supplier_id) !== user.id) {
+    throw new HttpError(404, "Purchase order not found")
+  }
+  return order
+}
+
+function summarizeOrder(order: MockPurchaseOrder) {
+  const { id, order_number, status, order_date, total_amount, currency, supplier_name, schedule_id, created_at } = order
+  return { id, order_number, status, order_date, total_amount, currency, supplier_name, schedule_id, created_at }
+}
+
+function findOrderTemplate(id: string, user: MockUser) {
+  const template = db.orderTemplates.find((candidate) => candidate.id === id)
+  if (!template || template.buyer_id !== user.id) {
+    throw new HttpError(404, "Order template not found")
+  }
+  return template
+}
+
+// Stock isn't checked here; it is only checked when the template is loaded into the cart
+function orderTemplateInput(body: any, buyer: MockUser, existing?: MockOrderTemplate): MockOrderTemplate {
+  const name = String(body?.name ?? "").trim()
+  if (!name) {
+    throw new HttpError(400, "Template name is required")
+  }
+  const taken = db.orderTemplates.some(
+    (template) => template.buyer_id === buyer.id && template.id !== existing?.id && template.name === name,
+  )
+  if (taken) {
+    throw new HttpError(409, `A template called "${name}" already exists`)
+  }
+  const requested: any[] = Array.isArray(body.items) ? body.items : []
+  if (requested.length === 0) {
+    throw new HttpError(400, "A template needs at least one item")
+  }
+
+  const items = requested.map((item) => {
+    const quantity = Number(item.quantity)
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new HttpError(400, "Quantities must be whole numbers above zero")
+    }
+    // Lines kept from before a product was removed stay as they were
+    const kept = existing?.items.find((candidate) => candidate.product_option_id === item.product_option_id)
+    const product = db.products.find((candidate) => candidate.id === item.product_id)
+    const option = product?.options.find((candidate) => candidate.id === item.product_option_id)
+    if (!product || !option) {
+      if (kept) return { ...kept, quantity }
+      throw new HttpError(400, `Unknown product option ${item.product_option_id}`)
+    }
+    return {
+      product_id: product.id,
+      product_option_id: option.id,
+      product_name: product.name,
+      product_option_name: option.name,
+      quantity,
+    }
+  })
+  if (new Set(items.map((item) => item.product_option_id)).size !== items.length) {
+    throw new HttpError(400, "Each product option can only be listed once")
+  }
+
+  const now = new Date().toISOString()
+  return {
+    id: existing?.id ?? `tmpl-${randomUUID()}`,
+    name,
+    buyer_id: buyer.id,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+    items,
+  }
+}
+
+interface OrderLine {
+  product: MockProduct
+  option: MockProduct["options"][number]
+  quantity: number
+  currency: string
+}
+
+// Takes the stock and records a draft order; the lines must already fit the stock and share a supplier
+function placeOrder(
+  buyer: MockUser,
+  lines: OrderLine[],
+  details: {
+    notes?: string | null
+    requested_delivery_date?: string | null
+    address?: MockUser["addresses"][number]
+    schedule_id?: string
+  },
+) {
+  lines.forEach(({ option, quantity }) => {
+    option.quantity -= quantity
+  })
+
+  const number = db.orders.length + 1
+  const id = `po-${randomUUID()}`
+  const now = new Date().toISOString()
+  const items = lines.map(({ product, option, quantity, currency }, index) => ({
+    id: `${id}-item-${index + 1}`,
+    product_id: product.id,
+    product_option_id: option.id,
+    product_name: product.name,
+    product_option_name: option.name,
+    unit_price: option.price,
+    total_price: option.price * quantity,
+    quantity,
+    currency,
+  }))
+  const { address } = details
+  const order: MockPurchaseOrder = {
+    id,
+    order_number: `PO-${String(number).padStart(5, "0")}`,
+    status: "draft",
+    order_date: now,
+    created_at: now,
+    total_amount: items.reduce((total, item) => total + item.total_price, 0),
+    currency: items[0].currency,
+    notes: details.notes ?? null,
+    requested_delivery_date: details.requested_delivery_date ?? null,
+    delivery_address: address
+      ? {
+          label: address.label,
+          recipient: address.recipient,
+          postal_code: address.postal_code,
+          address: address.address,
+          phone: address.phone,
+        }
+      : null,
+    items,
+    schedule_id: details.schedule_id ?? null,
+    buyer_id: buyer.id,
+    supplier_id: lines[0].product.supplier_id,
+    supplier_name: lines[0].product.supplier_name,
+  }
+  db.orders.push(order)
+  return order
+}
+
+const SCHEDULE_FREQUENCIES = ["weekly", "monthly", "custom"]
+
+function findOrderSchedule(id: string, user: MockUser) {
+  const schedule = db.orderSchedules.find((candidate) => candidate.id === id)
+  if (!schedule || schedule.buyer_id !== user.id) {
+    throw new HttpError(404, "Order schedule not found")
+  }
+  return schedule
+}
+
+function nextRunAt(schedule: Pick<MockOrderSchedule, "cron" | "time_zone">, after: Date) {
+  return nextCronRuns(schedule.cron, after, 1, schedule.time_zone)[0]?.toISOString() ?? null
+}
+
+function presentSchedule({ buyer_id, ...schedule }: MockOrderSchedule) {
+  const template = db.orderTemplates.find((candidate) => candidate.id === schedule.template_id)
+  return { ...schedule, template_name: template?.name ?? "Deleted template" }
+}
+
+function orderScheduleInput(body: any, buyer: MockUser, existing?: MockOrderSchedule): MockOrderSchedule {
+  const template = findOrderTemplate(String(body?.template_id ?? ""), buyer)
+  if (!SCHEDULE_FREQUENCIES.includes(body.frequency)) {
+    throw new HttpError(400, `Frequency must be one of ${SCHEDULE_FREQUENCIES.join(", ")}`)
+  }
+  const cron = String(body.cron ?? "").trim()
+  const cronError = validateCron(cron)
+  if (cronError) {
+    throw new HttpError(400, cronError)
+  }
+  const timeZone = String(body.time_zone ?? "")
+  const timeZoneError = timeZone ? validateTimeZone(timeZone) : "A time zone is required"
+  if (timeZoneError) {
+    throw new HttpError(400, timeZoneError)
+  }
+  const nextRun = nextRunAt({ cron, time_zone: timeZone }, new Date())
+  if (!nextRun) {
+    throw new HttpError(400, "This rule never comes round")
+  }
+
+  const status = existing?.status ?? "active"
+  return {
+    id: existing?.id ?? `sched-${randomUUID()}`,
+    template_id: template.id,
+    buyer_id: buyer.id,
+    frequency: body.frequency,
+    cron,
+    time_zone: timeZone,
+    status,
+    next_run_at: status === "active" ? nextRun : null,
+    created_at: existing?.created_at ?? new Date().toISOString(),
+    runs: existing?.runs ?? [],
+  }
+}
+
+// Places the template as one draft order per supplier with whatever stock there is, then books the next run
+function runSchedule(schedule: MockOrderSchedule, runAt: Date) {
+  const buyer = db.users.find((candidate) => candidate.id === schedule.buyer_id)
+  const template = db.orderTemplates.find((candidate) => candidate.id === schedule.template_id)
+  const run: MockOrderSchedule["runs"][number] = {
+    id: `run-${randomUUID()}`,
+    run_at: runAt.toISOString(),
+    status: "failed",
+    orders: [],
+    message: "The template no longer exists",
+  }
+
+  if (buyer && template) {
+    const problems: string[] = []
+    const bySupplier = new Map<string, OrderLine[]>()
+    template.items.forEach((item) => {
+      const product = db.products.find((candidate) => candidate.id === item.product_id)
+      const option = product?.options.find((candidate) => candidate.id === item.product_option_id)
+      if (!product || !option) {
+        problems.push(`${item.product_name} - ${item.product_option_name} is no longer sold`)
+        return
+      }
+      const quantity = Math.min(item.quantity, option.quantity)
+      if (quantity === 0) {
+        problems.push(`${product.name} - ${option.name} is out of stock`)
+      } else if (quantity < item.quantity) {
+        problems.push(`${product.name} - ${option.name}: only ${quantity} of ${item.quantity} in stock`)
+      }
+      if (quantity > 0) {
+        bySupplier.set(product.supplier_id, [
+          ...(bySupplier.get(product.supplier_id) ?? []),
+          { product, option, quantity, currency: "JPY" },
+        ])
+      }
+    })
+
+    const address = buyer.addresses.find((candidate) => candidate.is_default) ?? buyer.addresses[0]
+    run.orders = Array.from(bySupplier.values()).map((lines) => {
+      const order = placeOrder(buyer, lines, {
+        notes: `Placed automatically from the "${template.name}" template`,
+        address,
+        schedule_id: schedule.id,
+      })
+      broadcast("order_updated", { id: order.id, order_number: order.order_number, status: order.status })
+      const { id, order_number, supplier_name, total_amount, currency } = order
+      return { id, order_number, supplier_name, total_amount, currency }
+    })
+    run.status = run.orders.length === 0 ? "failed" : problems.length > 0 ? "partial" : "placed"
+    run.message = problems.length > 0 ? problems.join("; ") : null
+  }
+
+  schedule.runs.unshift(run)
+  schedule.next_run_at = nextRunAt(schedule, runAt)
+}
+
+// Runs that were missed while the mock was down are placed once, not once per missed slot
+function runDueSchedules() {
+  const now = new Date()
+  db.orderSchedules.forEach((schedule) => {
+    if (schedule.status === "active" && schedule.next_run_at && new Date(schedule.next_run_at) <= now) {
+      runSchedule(schedule, now)
+    }
+  })
+}
+
+function categoryId(value: unknown) {
+  if (!value) {
+    return null
+  }
+  if (!db.categories.some((category) => category.id === value)) {
+    throw new HttpError(400, "Unknown category")
+  }
+  return String(value)
+}
+
+// The category itself and everything nested under it
+function categoryWithDescendants(id: string) {
+  const ids = new Set([id])
+  let size = 0
+  while (ids.size !== size) {
+    size = ids.size
+    db.categories.forEach((category) => {
+      if (category.parent_id && ids.has(category.parent_id)) {
+        ids.add(category.id)
+      }
+    })
+  }
+  return ids
+}
+
+function productInput(body: any, supplier: MockUser, existing?: MockProduct): MockProduct {
+  if (!body?.code || !body?.name) {
+    throw new HttpError(400, "Code and name are required")
+  }
+  const id = existing?.id ?? `prod-${randomUUID()}`
+  return {
+    id,
+    code: String(body.code),
+    name: String(body.name),
+    img: body.img ? String(body.img) : "",
+    category_id: categoryId(body.category_id),
+    supplier_id: supplier.id,
+    supplier_name: supplier.company.name,
+    created_at: existing?.created_at ?? new Date().toISOString(),
+    options: (Array.isArray(body.options) ? body.options : []).map((option: any) => ({
+      id: option.id || `${id}-opt-${randomUUID()}`,
+      code: String(option.code ?? ""),
+      name: String(option.name ?? ""),
+      price: Number(option.price) || 0,
+      quantity: Number(option.quantity) || 0,
+    })),
+  }
+}
+
+function presentFavorite({ buyer_id, ...favorite }: MockFavorite) {
+  return { ...favorite, product: db.products.find((candidate) => candidate.id === favorite.product_id) ?? null }
+}
+
+function presentWatch({ buyer_id, ...watch }: MockWatch) {
+  const product = db.products.find((candidate) => candidate.id === watch.product_id)
+  return {
+    ...watch,
+    product_name: product?.name ?? null,
+    option: product?.options.find((candidate) => candidate.id === watch.product_option_id) ?? null,
+  }
+}
+
+// Tells watching buyers about options that got cheaper or came back in stock with a product update
+function announceOptionChanges(before: MockProduct, after: MockProduct) {
+  after.options.forEach((option) => {
+    const previous = before.options.find((candidate) => candidate.id === option.id)
+    if (!previous) return
+    const watches = db.watches.filter((watch) => watch.product_option_id === option.id)
+    const data = {
+      product_id: after.id,
+      product_name: after.name,
+      product_option_id: option.id,
+      product_option_name: option.name,
+    }
+    if (option.price < previous.price) {
+      const buyerIds = watches.filter((watch) => watch.price_drop).map((watch) => watch.buyer_id)
+      notify(buyerIds, "price_dropped", { ...data, old_price: previous.price, new_price: option.price })
+    }
+    if (previous.quantity === 0 && option.quantity > 0) {
+      const buyerIds = watches.filter((watch) => watch.back_in_stock).map((watch) => watch.buyer_id)
+      notify(buyerIds, "back_in_stock", { ...data, quantity: option.quantity })
+    }
+  })
+}
+
+function broadcast(event: string, data: unknown) {
+  const message = JSON.stringify({ event, data })
+  sockets.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message)
+    }
+  })
+}
+
+// Like broadcast, but only to the sockets the given users opened
+function notify(userIds: string[], event: string, data: unknown) {
+  const message = JSON.stringify({ event, data })
+  sockets.clients.forEach((client) => {
+    const userId = socketUsers.get(client)
+    if (client.readyState === WebSocket.OPEN && userId && userIds.includes(userId)) {
+      client.send(message)
+    }
+  })
+}
+
+// Auth
+
+route("POST", "/login", ({ body }) => {
+  const user = db.users.find((candidate) => candidate.username === body?.username)
+  if (!user || user.password !== body?.password) {
+    throw new HttpError(401, "Invalid username or password")
+  }
+  if (user.twoFactor.enabled) {
+    const challengeToken = randomUUID()
+    twoFactorChallenges.set(challengeToken, user.id)
+    return { status: "2fa_required", challenge_token: challengeToken }
+  }
+  return tokenResponse(user)
+})
+
+route("POST", "/login/2fa", ({ body }) => {
+  const userId = twoFactorChallenges.get(body?.challenge_token)
+  const user = db.users.find((candidate) => candidate.id === userId)
+  if (!user) {
+    throw new HttpError(401, "Login attempt expired, please log in again")
+  }
+  if (!verifyCode(user, String(body?.code ?? ""), true)) {
+    throw new HttpError(401, "Invalid verification code")
+  }
+  twoFactorChallenges.delete(body.challenge_token)
+  return tokenResponse(user)
+})
+
+route("POST", "/register", ({ body }) => {
+  if (body?.role !== "buyer" && body?.role !== "supplier") {
+    throw new HttpError(400, "Role must be buyer or supplier")
+  }
+  if (db.users.some((candidate) => candidate.username === body.username)) {
+    throw new HttpError(409, "Username is already taken")
+  }
+  if (db.users.some((candidate) => candidate.email === body.email)) {
+    throw new HttpError(409, "Email is already registered")
+  }
+  const user: MockUser = {
+    id: `user-${randomUUID()}`,
+    role: body.role,
+    username: String(body.username),
+    email: String(body.email),
+    password: String(body.password),
+    company: body.company ?? { name: "", address: "" },
+    twoFactor: { enabled: false, secret: null, backupCodes: [] },
+    addresses: [],
+  }
+  // Start the address book off with the company address given at sign-up
+  if (user.company.address) {
+    user.addresses.push({
+      id: `addr-${randomUUID()}`,
+      label: "Company",
+      recipient: user.company.name,
+      postal_code: "",
+      address: user.company.address,
+      phone: user.company.phone ?? null,
+      is_default: true,
+    })
+  }
+  db.users.push(user)
+  return tokenResponse(user)
+})
+
+route("POST", "/refresh", ({ request }) => tokenResponse(tokenUser(request)))
+
+// Browsers can't send a bearer token when opening a WebSocket, so they trade it for a ticket first
+route("POST", "/ws-ticket", ({ request }) => {
+  const ticket = randomUUID()
+  socketTickets.set(ticket, currentUser(request).id)
+  return { ticket }
+})
+
+route("POST", "/password/forgot", ({ body }) => {
+  const user = db.users.find((candidate) => candidate.email === body?.email)
+  if (user) {
+    const token = randomUUID()
+    resetTokens.set(token, user.id)
+    console.log(`[mock] Password reset link for ${user.email}: /reset-password?token=${token}`)
+  }
+  // Same answer either way, so the endpoint can't be used to probe for accounts
+  return { message: "If that email is registered, a reset link has been sent" }
+})
+
+route("POST", "/password/reset", ({ body }) => {
+  const user = db.users.find((candidate) => candidate.id === resetTokens.get(body?.token))
+  if (!user) {
+    throw new HttpError(400, "This reset link is invalid or has expired")
+  }
+  user.password = String(body.password)
+  resetTokens.delete(body.token)
+  return { message: "Password reset" }
+})
+
+route("POST", "/password/change", ({ request, body }) => {
+  const user = currentUser(request)
+  if (user.password !== body?.current_password) {
+    throw new HttpError(400, "Current password is incorrect")
+  }
+  user.password = String(body.new_password)
+  return { message: "Password changed" }
+})
+
+route("GET", "/2fa", ({ request }) => ({ enabled: tokenUser(request).twoFactor.enabled }))
+
+route("POST", "/2fa/setup", ({ request }) => {
+  const user = tokenUser(request)
+  user.twoFactor.secret = "JBSWY3DPEHPK3PXP"
+  return {
+    secret: user.twoFactor.secret,
+    otpauth_url: `otpauth://totp/wao:${user.username}?secret=${user.twoFactor.secret}&issuer=wao`,
+  }
+})
+
+route("POST", "/2fa/enable", ({ request, body }) => {
+  const user = tokenUser(request)
+  if (!user.twoFactor.secret || !verifyCode(user, String(body?.code ?? ""))) {
+    throw new HttpError(400, "Invalid verification code")
+  }
+  user.twoFactor.enabled = true
+  user.twoFactor.backupCodes = newBackupCodes()
+  return { backup_codes: user.twoFactor.backupCodes }
+})
+
+route("POST", "/2fa/backup-codes", ({ request, body }) => {
+  const user = currentUser(request)
+  if (!user.twoFactor.enabled || !verifyCode(user, String(body?.code ?? ""))) {
+    throw new HttpError(400, "Invalid verification code")
+  }
+  user.twoFactor.backupCodes = newBackupCodes()
+  return { backup_codes: user.twoFactor.backupCodes }
+})
+
+// Addresses
+
+route("GET", "/address", ({ request }) => currentUser(request).addresses)
+
+// Categories
+
+route("GET", "/category", ({ request }) => {
+  currentUser(request)
+  return db.categories
+})
+
+// Products
+
+interface ProductFilters {
+  minPrice: number | null
+  maxPrice: number | null
+  inStock: boolean
+  suppliers: string[]
+  options: string[]
+}
+
+type Facet = "price" | "inStock" | "suppliers" | "options"
+
+function numberParam(value: string | null) {
+  return value !== null && value !== "" && Number.isFinite(Number(value)) ? Number(value) : null
+}
+
+// A product matches when one of its options passes all the option-level filters at once.
+// `ignore` leaves out one facet's own filter, so its counts show what picking another value would give.
+function productMatches(product: MockProduct, filters: ProductFilters, ignore?: Facet) {
+  if (ignore !== "suppliers" && filters.suppliers.length > 0 && !filters.suppliers.includes(product.supplier_id)) {
+    return false
+  }
+  const checkPrice = ignore !== "price" && (filters.minPrice !== null || filters.maxPrice !== null)
+  const checkStock = ignore !== "inStock" && filters.inStock
+  const checkOptions = ignore !== "options" && filters.options.length > 0
+  if (!checkPrice && !checkStock && !checkOptions) {
+    return true
+  }
+  return product.options.some(
+    (option) =>
+      (!checkPrice ||
+        ((filters.minPrice === null || option.price >= filters.minPrice) &&
+          (filters.maxPrice === null || option.price <= filters.maxPrice))) &&
+      (!checkStock || option.quantity > 0) &&
+      (!checkOptions || filters.options.includes(option.name)),
+  )
+}
+
+function countBy(entries: { value: string; label: string }[]) {
+  const counts = new Map<string, { value: string; label: string; count: number }>()
+  entries.forEach(({ value, label }) => {
+    const facet = counts.get(value) ?? { value, label, count: 0 }
+    facet.count += 1
+    counts.set(value, facet)
+  })
+  return Array.from(counts.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
+
+// Price sorts by the cheapest option, stock by the total across options
+function sortValue(product: MockProduct, sortBy: "price" | "stock") {
+  if (sortBy === "stock") {
+    return product.options.reduce((total, option) => total + option.quantity, 0)
+  }
+  return product.options.length > 0 ? Math.min(...product.options.map((option) => option.price)) : Infinity
+}
+
+function productFacets(products: MockProduct[], filters: ProductFilters) {
+  const prices = products
+    .filter((product) => productMatches(product, filters, "price"))
+    .flatMap((product) => product.options.map((option) => option.price))
+  return {
+    price: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+    in_stock: products.filter((product) => productMatches(product, { ...filters, inStock: true })).length,
+    suppliers: countBy(
+      products
+        .filter((product) => productMatches(product, filters, "suppliers"))
+        .map((product) => ({ value: product.supplier_id, label: product.supplier_name })),
+    ),
+    options: countBy(
+      products
+        .filter((product) => productMatches(product, filters, "options"))
+        .flatMap((product) => Array.from(new Set(product.options.map((option) => option.name))))
+        .map((name) => ({ value: name, label: name })),
+    ),
+  }
+}
+
+route("GET", "/product", ({ request, query }) => {
+  const user = currentUser(request)
+  const page = Math.max(1, Number(query.get("page")) || 1)
+  const limit = Math.max(1, Number(query.get("limit")) || 10)
+  const search = (query.get("search") ?? "").toLowerCase()
+  const category = query.get("category")
+  const categories = category ? categoryWithDescendants(category) : null
+  const sortBy = query.get("sortBy") ?? "name"
+  const direction = query.get("sortOrder") === "desc" ? -1 : 1
+  const filters: ProductFilters = {
+    minPrice: numberParam(query.get("minPrice")),
+    maxPrice: numberParam(query.get("maxPrice")),
+    inStock: query.get("inStock") === "true",
+    suppliers: query.getAll("suppliers"),
+    options: query.getAll("options"),
+  }
+
+  // Facets are counted over everything but the facet filters themselves
+  const searched = db.products
+    .filter((product) => user.role === "buyer" || product.supplier_id === user.id)
+    .filter((product) => !categories || (product.category_id != null && categories.has(product.category_id)))
+    .filter(
+      (product) =>
+        !search ||
+        product.name.toLowerCase().includes(search) ||
+        product.code.toLowerCase().includes(search) ||
+        product.supplier_name.toLowerCase().includes(search),
+    )
+  const matches = searched
+    .filter((product) => productMatches(product, filters))
+    .sort((a, b) => {
+      if (sortBy === "price" || sortBy === "stock") {
+        return (sortValue(a, sortBy) - sortValue(b, sortBy)) * direction || a.name.localeCompare(b.name)
+      }
+      const field = sortBy === "createdAt" ? "created_at" : sortBy === "code" ? "code" : "name"
+      return a[field].localeCompare(b[field]) * direction
+    })
+
+  return {
+    items: matches.slice((page - 1) * limit, page * limit),
+    limit,
+    page,
+    pages: Math.max(1, Math.ceil(matches.length / limit)),
+    total: matches.length,
+    facets: productFacets(searched, filters),
+  }
+})
+
+// Registered before /product/:id, which would otherwise take "options" for an id
+route("GET", "/product/options", ({ request, query }) => {
+  currentUser(request)
+  const codes = new Set(query.getAll("codes").map((code) => code.trim().toUpperCase()))
+  return db.products.filter((product) => product.options.some((option) => codes.has(option.code.toUpperCase())))
+})
+
+route("GET", "/product/:id", ({ request, params }) => {
+  currentUser(request)
+  return { data: findProduct(params.id) }
+})
+
+route("POST", "/product", ({ request, body }) => {
+  const user = requireRole(request, "supplier")
+  const product = productInput(body, user)
+  db.products.push(product)
+  broadcast("product_created", product)
+  return product
+})
+
+route("PUT", "/product/:id", ({ request, params, body }) => {
+  const user = requireRole(request, "supplier")
+  const existing = findProduct(params.id)
+  if (existing.supplier_id !== user.id) {
+    throw new HttpError(404, "Product not found")
+  }
+  const product = productInput(body, user, existing)
+  db.products = db.products.map((candidate) => (candidate.id === product.id ? product : candidate))
+  announceOptionChanges(existing, product)
+  return product
+})
+
+route("DELETE", "/product/:id", ({ request, params }) => {
+  const user = requireRole(request, "supplier")
+  const existing = findProduct(params.id)
+  if (existing.supplier_id !== user.id) {
+    throw new HttpError(404, "Product not found")
+  }
+  db.products = db.products.filter((candidate) => candidate.id !== existing.id)
+  return null
+})
+
+// Purchase orders
+
+route("GET", "/purchase-order", ({ request }) => {
+  const user = currentUser(request)
+  return db.orders
+    .filter((order) => (user.role === "buyer" ? order.buyer_id : order.supplier_id) === user.id)
+    .sort((a, b) => b.order_date.localeCompare(a.order_date))
+    .map(summarizeOrder)
+})
+
+route("GET", "/purchase-order/:id", ({ request, params }) => {
+  const { buyer_id, supplier_id, ...order } = findOrder(params.id, currentUser(request))
+  return order
+})
+
+route("POST", "/purchase-order", ({ request, body }) => {
+  const user = requireRole(request, "buyer")
+  const requested: any[] = Array.isArray(body?.items) ? body.items : []
+  if (requested.length === 0) {
+    throw new HttpError(400, "A purchase order needs at least one item")
+  }
+
+  const address = body.delivery_address_id
+    ? user.addresses.find((candidate) => candidate.id === body.delivery_address_id)
+    : undefined
+  if (body.delivery_address_id && !address) {
+    throw new HttpError(400, "Unknown delivery address")
+  }
+  if (body.requested_delivery_date && !/^\d{4}-\d{2}-\d{2}$/.test(body.requested_delivery_date)) {
+    throw new HttpError(400, "Requested delivery date must be YYYY-MM-DD")
+  }
+
+  const lines = requested.map((item) => {
+    const product = findProduct(String(item.product_id))
+    const option = product.options.find((candidate) => candidate.id === item.product_option_id)
+    const quantity = Number(item.quantity)
+    if (!option) {
+      throw new HttpError(400, `${product.name} has no option ${item.product_option_id}`)
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new HttpError(400, "Quantities must be whole numbers above zero")
+    }
+    if (quantity > option.quantity) {
+      throw new HttpError(409, `Only ${option.quantity} of ${product.name} - ${option.name} left in stock`)
+    }
+    return { product, option, quantity, currency: String(item.currency || "JPY") }
+  })
+
+  if (new Set(lines.map(({ product }) => product.supplier_id)).size > 1) {
+    throw new HttpError(400, "A purchase order can only contain products from one supplier")
+  }
+
+  const order = placeOrder(user, lines, {
+    notes: body.notes,
+    requested_delivery_date: body.requested_delivery_date,
+    address,
+  })
+  return { id: order.id }
+})
+
+route("PATCH", "/purchase-order/:id/status", ({ request, params, body }) => {
+  const order = findOrder(params.id, requireRole(request, "supplier"))
+  if (!ORDER_STATUSES.includes(body?.status)) {
+    throw new HttpError(400, `Status must be one of ${ORDER_STATUSES.join(", ")}`)
+  }
+  order.status = body.status
+  broadcast("order_updated", { id: order.id, order_number: order.order_number, status: order.status })
+  return summarizeOrder(order)
+})
+
+// Order templates
+
+route("GET", "/order-template", ({ request }) => {
+  const user = requireRole(request, "buyer")
+  return db.orderTemplates
+    .filter((template) => template.buyer_id === user.id)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ buyer_id, ...template }) => template)
+})
+
+route("GET", "/order-template/:id", ({ request, params }) => {
+  const { buyer_id, ...template } = findOrderTemplate(params.id, requireRole(request, "buyer"))
+  return template
+})
+
+route("POST", "/order-template", ({ request, body }) => {
+  const template = orderTemplateInput(body, requireRole(request, "buyer"))
+  db.orderTemplates.push(template)
+  const { buyer_id, ...created } = template
+  return created
+})
+
+route("PUT", "/order-template/:id", ({ request, params, body }) => {
+  const user = requireRole(request, "buyer")
+  const template = orderTemplateInput(body, user, findOrderTemplate(params.id, user))
+  db.orderTemplates = db.orderTemplates.map((candidate) => (candidate.id === template.id ? template : candidate))
+  const { buyer_id, ...updated } = template
+  return updated
+})
+
+route("DELETE", "/order-template/:id", ({ request, params }) => {
+  const template = findOrderTemplate(params.id, requireRole(request, "buyer"))
+  const schedules = db.orderSchedules.filter((schedule) => schedule.template_id === template.id).length
+  if (schedules > 0) {
+    const plural = schedules !== 1 ? "s" : ""
+    throw new HttpError(409, `This template is used by ${schedules} schedule${plural}; delete them first`)
+  }
+  db.orderTemplates = db.orderTemplates.filter((candidate) => candidate.id !== template.id)
+  return null
+})
+
+// Favorites and option watches
+
+route("GET", "/favorite", ({ request }) => {
+  const user = requireRole(request, "buyer")
+  return db.favorites
+    .filter((favorite) => favorite.buyer_id === user.id)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(presentFavorite)
+})
+
+// Adding a product that is already a favorite leaves it as it was
+route("PUT", "/favorite/:productId", ({ request, params }) => {
+  const user = requireRole(request, "buyer")
+  const product = findProduct(params.productId)
+  let favorite = db.favorites.find((candidate) => candidate.buyer_id === user.id && candidate.product_id === product.id)
+  if (!favorite) {
+    favorite = { buyer_id: user.id, product_id: product.id, created_at: new Date().toISOString() }
+    db.favorites.push(favorite)
+  }
+  return presentFavorite(favorite)
+})
+
+route("DELETE", "/favorite/:productId", ({ request, params }) => {
+  const user = requireRole(request, "buyer")
+  db.favorites = db.favorites.filter(
+    (candidate) => candidate.buyer_id !== user.id || candidate.product_id !== params.productId,
+  )
+  return null
+})
+
+route("GET", "/watch", ({ request }) => {
+  const user = requireRole(request, "buyer")
+  return db.watches
+    .filter((watch) => watch.buyer_id === user.id)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(presentWatch)
+})
+
+route("PUT", "/watch/:optionId", ({ request, params, body }) => {
+  const user = requireRole(request, "buyer")
+  const product = db.products.find((candidate) => candidate.options.some((option) => option.id === params.optionId))
+  if (!product) {
+    throw new HttpError(404, "Product option not found")
+  }
+  const alerts = { price_drop: body?.price_drop === true, back_in_stock: body?.back_in_stock === true }
+  if (!alerts.price_drop && !alerts.back_in_stock) {
+    throw new HttpError(400, "Choose at least one alert")
+  }
+
+  const existing = db.watches.find(
+    (candidate) => candidate.buyer_id === user.id && candidate.product_option_id === params.optionId,
+  )
+  const watch: MockWatch = {
+    buyer_id: user.id,
+    product_id: product.id,
+    product_option_id: params.optionId,
+    ...alerts,
+    created_at: existing?.created_at ?? new Date().toISOString(),
+  }
+  db.watches = [...db.watches.filter((candidate) => candidate !== existing), watch]
+  return presentWatch(watch)
+})
+
+route("DELETE", "/watch/:optionId", ({ request, params }) => {
+  const user = requireRole(request, "buyer")
+  db.watches = db.watches.filter(
+    (candidate) => candidate.buyer_id !== user.id || candidate.product_option_id !== params.optionId,
+  )
+  return null
+})
+
+// Recurring order schedules
+
+route("GET", "/order-schedule", ({ request }) => {
+  const user = requireRole(request, "buyer")
+  return db.orderSchedules
+    .filter((schedule) => schedule.buyer_id === user.id)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(presentSchedule)
+})
+
+route("GET", "/order-schedule/:id", ({ request, params }) =>
+  presentSchedule(findOrderSchedule(params.id, requireRole(request, "buyer"))),
+)
+
+route("POST", "/order-schedule", ({ request, body }) => {
+  const schedule = orderScheduleInput(body, requireRole(request, "buyer"))
+  db.orderSchedules.push(schedule)
+  return presentSchedule(schedule)
+})
+
+route("PUT", "/order-schedule/:id", ({ request, params, body }) => {
+  const user = requireRole(request, "buyer")
+  const schedule = orderScheduleInput(body, user, findOrderSchedule(params.id, user))
+  db.orderSchedules = db.orderSchedules.map((candidate) => (candidate.id === schedule.id ? schedule : candidate))
+  return presentSchedule(schedule)
+})
+
+route("PATCH", "/order-schedule/:id/status", ({ request, params, body }) => {
+  const schedule = findOrderSchedule(params.id, requireRole(request, "buyer"))
+  if (body?.status !== "active" && body?.status !== "paused") {
+    throw new HttpError(400, "Status must be active or paused")
+  }
+  schedule.status = body.status
+  // Resuming doesn't make up for runs missed while paused
+  schedule.next_run_at = schedule.status === "active" ? nextRunAt(schedule, new Date()) : null
+  return presentSchedule(schedule)
+})
+
+route("POST", "/order-schedule/:id/skip", ({ request, params }) => {
+  const schedule = findOrderSchedule(params.id, requireRole(request, "buyer"))
+  if (schedule.status !== "active" || !schedule.next_run_at) {
+    throw new HttpError(400, "There is no upcoming run to skip")
+  }
+  schedule.runs.unshift({
+    id: `run-${randomUUID()}`,
+    run_at: schedule.next_run_at,
+    status: "skipped",
+    orders: [],
+    message: null,
+  })
+  schedule.next_run_at = nextRunAt(schedule, new Date(schedule.next_run_at))
+  return presentSchedule(schedule)
+})
+
+route("DELETE", "/order-schedule/:id", ({ request, params }) => {
+  const schedule = findOrderSchedule(params.id, requireRole(request, "buyer"))
+  db.orderSchedules = db.orderSchedules.filter((candidate) => candidate.id !== schedule.id)
+  return null
+})
+
+// Lets automated tests start every run from the same data
+route("POST", "/__reset", () => {
+  db = createFixtures(EXTRA_PRODUCTS)
+  twoFactorChallenges.clear()
+  resetTokens.clear()
+  socketTickets.clear()
+  return { message: "Mock data reset" }
+})
+
+async function readBody(request: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  if (chunks.length === 0) {
+    return undefined
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString())
+  } catch (error) {
+    throw new HttpError(400, "Request body must be JSON")
+  }
+}
+
+function send(response: ServerResponse, status: number, data: unknown) {
+  if (data === null || data === undefined) {
+    response.writeHead(status === 200 ? 204 : status).end()
+    return
+  }
+  response.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(data))
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url ?? "/", `http://${request.headers.host}`)
+  const path = url.pathname.replace(/^\/api\/v1/, "").replace(/\/$/, "") || "/"
+
+  try {
+    for (const { method, pattern, keys, handler } of routes) {
+      const match = request.method === method ? pattern.exec(path) : null
+      if (!match) continue
+
+      const params = Object.fromEntries(keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]))
+      const body = await readBody(request)
+      send(response, 200, await handler({ params, query: url.searchParams, body, request }))
+      return
+    }
+    throw new HttpError(404, `No mock for ${request.method} ${path}`)
+  } catch (error) {
+    if (error instanceof HttpError) {
+      send(response, error.status, { message: error.message })
+      return
+    }
+    console.error("[mock] Unhandled error:", error)
+    send(response, 500, { message: "Internal mock error" })
+  }
+}
+
+// Replays the seed data as live events: new products first, then orders moving through their statuses
+function emitFixtureEvent() {
+  const product = db.upcomingProducts.shift()
+  if (product) {
+    const announced = { ...product, created_at: new Date().toISOString() }
+    db.products.push(announced)
+    broadcast("product_created", announced)
+    return
+  }
+
+  const order = db.orders.find((candidate) => !["finished", "cancelled"].includes(candidate.status))
+  if (order) {
+    order.status = ORDER_STATUSES[ORDER_STATUSES.indexOf(order.status) + 1]
+    broadcast("order_updated", { id: order.id, order_number: order.order_number, status: order.status })
+  }
+}
+
+const server = createServer((request, response) => {
+  handle(request, response)
+})
+const sockets = new WebSocketServer({ server, path: "/ws" })
+
+sockets.on("connection", (socket, request) => {
+  const ticket = new URL(request.url ?? "", "http://localhost").searchParams.get("ticket") ?? ""
+  const userId = socketTickets.get(ticket)
+  if (!userId) {
+    socket.close(1008, "Missing or used ticket")
+    return
+  }
+  socketTickets.delete(ticket)
+  socketUsers.set(socket, userId)
+  socket.send(JSON.stringify({ event: "connected", message: "Connected to the mock backend" }))
+})
+
+if (EVENT_INTERVAL_MS > 0) {
+  setInterval(emitFixtureEvent, EVENT_INTERVAL_MS).unref()
+}
+
+if (SCHEDULE_INTERVAL_MS > 0) {
+  setInterval(runDueSchedules, SCHEDULE_INTERVAL_MS).unref()
+}
+
+server.listen(MOCK_BACKEND_PORT, () => {
+  console.log(`[mock] Backend listening on http://localhost:${MOCK_BACKEND_PORT}/api/v1`)
+  console.log(`[mock] WebSocket events on ws://localhost:${MOCK_BACKEND_PORT}/ws`)
+})